@@ -1,8 +1,30 @@
-import { checkForUpdates, syncRatingHistory } from './lib/api';
-import { BACKFILL_STATE_KEY, DEFAULT_SETTINGS, ICONS, RATING_HISTORY_KEY, SETTINGS_KEY } from './lib/constants';
-import { renderGraph, renderSettingsPanel, setSyncState, setupUI, startRefreshCycle } from './lib/ui';
-import { getStoredData, getUserId, loadSettings, logger, waitForReady } from './lib/utils';
-import { BackfillState, Settings } from './types';
+import { checkForUpdates, rebuildHistoryFromCache, syncRatingHistory } from './lib/api';
+import { clearDuelCache } from './lib/cache';
+import { DEFAULT_BACKFILL_STATE, DEFAULT_SETTINGS, ICONS, SETTINGS_KEY } from './lib/constants';
+import { ExportRange, downloadFile, historyToCsv, historyToJson } from './lib/export';
+import { mergeHistory, parseBackup } from './lib/import';
+import { assignLegacyDataToAccount, moveHistoryToIndexedDb, runAccountMigrations, runMigrations } from './lib/migrations';
+import { rateLimiter } from './lib/ratelimit';
+import { SyncController } from './lib/sync';
+import { renderGraph, renderRateLimitState, renderSettingsPanel, setSyncState, setupUI, startRefreshCycle } from './lib/ui';
+import {
+    createEmptyHistory,
+    getActiveAccount,
+    getBackfillState,
+    getStoredData,
+    getUserId,
+    getUserNick,
+    handleError,
+    loadSettings,
+    logger,
+    rememberAccount,
+    setActiveAccount,
+    setBackfillState,
+    setStoredData,
+    setStoredDuelRecords,
+    waitForReady
+} from './lib/utils';
+import { Settings, StatsMode } from './types';
 
 /**
  * Guesslytics - GeoGuessr Rating Tracker
@@ -16,31 +38,39 @@ import { BackfillState, Settings } from './types';
     let settings: Settings = { ...DEFAULT_SETTINGS };
     let isInitialized = false;
     let isSyncing = false; // A global flag to prevent concurrent sync/backfill operations.
+    let activeSync: SyncController | null = null; // Controller of the running sync, used to pause or cancel it.
+    let activeSyncDone: Promise<unknown> | null = null; // Settles once the running sync has stopped writing.
     let userId: string | null = null;
 
     // --- Core Functions ---
 
+    /**
+     * Checks whether the logged-in account's data is shown. Syncs only run then, since the API
+     * only returns the games of the logged-in account.
+     */
+    function isViewingOwnAccount(): boolean {
+        return !!userId && getActiveAccount() === userId;
+    }
+
     /**
      * Backfills rating history from the user's activity feed.
      * This is a long-running process that pages through the feed API until it reaches the end
      * or a user-defined cutoff date.
      */
     async function backfillHistory(): Promise<void> {
-        if (isSyncing || !userId) {
-            logger.log('Sync request skipped (already in progress or no user ID).');
+        if (isSyncing || !userId || !isViewingOwnAccount()) {
+            logger.log('Sync request skipped (already in progress, no user ID or viewing another account).');
             return;
         }
 
-        isSyncing = true;
-        
-        try {
-            await syncRatingHistory(userId, settings.apiRequestDelay, setSyncState, settings, checkForUpdatesCallback, {
+        const id = userId;
+        await runSync((controller) =>
+            syncRatingHistory(id, settings.apiRequestDelay, setSyncState, settings, checkForUpdatesCallback, {
                 isBackfill: true,
-                logPrefix: 'History backfill'
-            });
-        } finally {
-            isSyncing = false;
-        }
+                logPrefix: 'History backfill',
+                controller
+            })
+        );
     }
 
     /**
@@ -48,19 +78,41 @@ import { BackfillState, Settings } from './types';
      * Prevents concurrent updates.
      */
     async function checkForUpdatesCallback(): Promise<void> {
-        if (!userId || isSyncing) return;
-        isSyncing = true;
-        const newData = await checkForUpdates(
-            userId,
-            settings.apiRequestDelay,
-            setSyncState,
-            settings,
-            checkForUpdatesCallback
+        if (!userId || isSyncing || !isViewingOwnAccount()) return;
+        const id = userId;
+
+        // New games are appended to the chart by the sync itself, so no re-render is needed here.
+        await runSync((controller) =>
+            checkForUpdates(id, settings.apiRequestDelay, setSyncState, settings, checkForUpdatesCallback, controller)
         );
-        if (newData) {
-            await renderGraph(await getStoredData(), settings);
+    }
+
+    /**
+     * Runs a sync with a new controller, holding the sync flag until it has finished.
+     * @param sync Starts the sync with the given controller.
+     */
+    async function runSync(sync: (controller: SyncController) => Promise<unknown>): Promise<void> {
+        isSyncing = true;
+        activeSync = new SyncController();
+        activeSyncDone = sync(activeSync);
+
+        try {
+            await activeSyncDone;
+        } finally {
+            isSyncing = false;
+            activeSync = null;
+            activeSyncDone = null;
         }
-        isSyncing = false;
+    }
+
+    /**
+     * Cancels the running sync, if any, and waits until it has stopped writing.
+     * The sync flag stays set afterwards, so no new sync starts; callers reload the page.
+     */
+    async function stopSyncForReload(): Promise<void> {
+        activeSync?.cancel();
+        await activeSyncDone?.catch(() => {}); // Sync errors are already reported by the sync itself
+        isSyncing = true;
     }
 
     // --- UI & Event Handlers ---
@@ -160,11 +212,14 @@ import { BackfillState, Settings } from './types';
 
             // --- Button Handlers ---
             document.getElementById('clearDataBtn')!.onclick = async () => {
-                if (confirm('Are you sure you want to delete all stored rating data? This cannot be undone.')) {
-                    logger.log('Clearing all data.');
+                if (confirm('Are you sure you want to delete all stored rating data of this account? This cannot be undone.')) {
+                    logger.log('Clearing all data of the active account.');
+                    // Stop a running sync first, so it doesn't write old data back after clearing.
+                    await stopSyncForReload();
                     // Set default values instead of null to prevent null reference errors
-                    await GM_setValue(RATING_HISTORY_KEY, { overall: [], moving: [], noMove: [], nmpz: [] });
-                    await GM_setValue(BACKFILL_STATE_KEY, { lastLimitDays: 0, lastSyncTimestamp: null, ended: false });
+                    await setStoredData(createEmptyHistory());
+                    await setBackfillState({ ...DEFAULT_BACKFILL_STATE });
+                    await setStoredDuelRecords({});
                     window.location.reload();
                 }
             };
@@ -179,22 +234,153 @@ import { BackfillState, Settings } from './types';
                 }
             };
 
+            // --- Account Handlers ---
+            const accountSelect = document.getElementById('accountSelect') as HTMLSelectElement;
+            const accountStatus = document.getElementById('accountStatus')!;
+
+            accountSelect.onchange = async () => {
+                if (isSyncing) {
+                    accountSelect.value = getActiveAccount();
+                    accountStatus.textContent = 'Wait for the running sync to finish.';
+                    return;
+                }
+                setActiveAccount(accountSelect.value);
+                await runAccountMigrations(accountSelect.value);
+                await renderGraph(await getStoredData(), settings);
+                startRefreshCycle(settings, checkForUpdatesCallback);
+                await renderSettingsPanel(settings);
+                await attachHandlers();
+            };
+
+            // --- Export Handlers ---
+            const readExportRange = (): ExportRange => {
+                const from = (document.getElementById('exportFrom') as HTMLInputElement).value;
+                const to = (document.getElementById('exportTo') as HTMLInputElement).value;
+                return {
+                    from: from ? new Date(`${from}T00:00:00`) : undefined,
+                    to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+                };
+            };
+            const exportFilename = (extension: string) =>
+                `guesslytics-history-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+            document.getElementById('exportJsonBtn')!.onclick = async () => {
+                logger.log('Exporting rating history as JSON.');
+                const json = historyToJson(await getStoredData(), readExportRange());
+                downloadFile(json, exportFilename('json'), 'application/json');
+            };
+
+            document.getElementById('exportCsvBtn')!.onclick = async () => {
+                logger.log('Exporting rating history as CSV.');
+                const csv = historyToCsv(await getStoredData(), readExportRange());
+                downloadFile(csv, exportFilename('csv'), 'text/csv');
+            };
+
+            // --- Import Handlers ---
+            const importFile = document.getElementById('importFile') as HTMLInputElement;
+            const importStatus = document.getElementById('importStatus')!;
+
+            document.getElementById('importBtn')!.onclick = () => importFile.click();
+
+            importFile.onchange = async () => {
+                const file = importFile.files?.[0];
+                if (!file) return;
+                // The import replaces the whole history, so it must not interleave with a sync's writes.
+                if (isSyncing) {
+                    importStatus.textContent = 'Wait for the running sync to finish.';
+                    importFile.value = '';
+                    return;
+                }
+                isSyncing = true;
+                logger.log(`Importing backup from ${file.name}.`);
+
+                try {
+                    const backup = parseBackup(await file.text());
+                    const { merged, result } = mergeHistory(await getStoredData(), backup);
+                    await setStoredData(merged);
+                    importStatus.textContent = `Imported ${result.added} entries, skipped ${result.skipped}` +
+                        (result.invalid > 0 ? ` (${result.invalid} invalid).` : '.');
+                    await renderGraph(merged, settings);
+                } catch (error) {
+                    handleError(error, 'Failed to import backup', { silent: true });
+                    importStatus.textContent = 'Import failed: the file is not a valid Guesslytics backup.';
+                } finally {
+                    isSyncing = false;
+                    importFile.value = '';
+                }
+            };
+
+            // --- Duel Cache Handlers ---
+            const cacheStatus = document.getElementById('cacheStatus')!;
+
+            // Rebuilds the shown account, whose data the storage reads and writes. Needs no requests, so
+            // unlike a sync it also works while another account is shown.
+            document.getElementById('rebuildFromCacheBtn')!.onclick = async () => {
+                if (isSyncing) {
+                    cacheStatus.textContent = 'Wait for the running sync to finish.';
+                    return;
+                }
+                isSyncing = true;
+                logger.log('Rebuilding history from the duel cache.');
+                try {
+                    const count = await rebuildHistoryFromCache(getActiveAccount());
+                    cacheStatus.textContent = `Rebuilt ${count} games from the cache.`;
+                    await renderGraph(await getStoredData(), settings);
+                } catch (error) {
+                    handleError(error, 'Failed to rebuild history from the cache', { silent: true });
+                    cacheStatus.textContent = 'Rebuild failed.';
+                } finally {
+                    isSyncing = false;
+                }
+            };
+
+            document.getElementById('clearCacheBtn')!.onclick = async () => {
+                if (confirm('Are you sure you want to delete all cached duels? They will be fetched again on the next sync.')) {
+                    logger.log('Clearing the duel cache.');
+                    await clearDuelCache();
+                    await renderSettingsPanel(settings);
+                    await attachHandlers();
+                }
+            };
+
             // --- Input Change Handlers ---
-            const inputs = document.querySelectorAll('#guesslyticsSettingsModal input');
+            // Backup inputs are not settings and are read on demand by the export and import handlers.
+            const inputs = document.querySelectorAll(
+                '#guesslyticsSettingsModal input:not(.backup-input), #guesslyticsSettingsModal select:not(#accountSelect)'
+            );
             inputs.forEach((input) => {
                 (input as HTMLInputElement).onchange = async () => {
                     logger.log(`Setting changed: ${input.id}`);
                     settings.showAreaFill = (document.getElementById('showAreaFill') as HTMLInputElement).checked;
-                    Object.keys(settings.visibleDatasets).forEach((key) => {
-                        const el = document.getElementById(`ds_${key}`) as HTMLInputElement;
-                        if (el) settings.visibleDatasets[key as keyof typeof settings.visibleDatasets] = el.checked;
+                    settings.showDivisions = (document.getElementById('showDivisions') as HTMLInputElement).checked;
+                    settings.showSessions = (document.getElementById('showSessions') as HTMLInputElement).checked;
+                    settings.sessionGapMinutes = Math.max(1,
+                        parseInt((document.getElementById('sessionGapMinutes') as HTMLInputElement).value, 10) || 1);
+                    const thresholds = { ...settings.divisionThresholds };
+                    document.querySelectorAll<HTMLInputElement>('#guesslyticsSettingsModal input[id^="div_"]').forEach((el) => {
+                        const threshold = parseInt(el.value, 10);
+                        if (!isNaN(threshold)) thresholds[el.dataset.key!] = Math.max(0, threshold);
+                    });
+                    settings.divisionThresholds = thresholds;
+                    const goals: Record<string, number> = {};
+                    document.querySelectorAll<HTMLInputElement>('#guesslyticsSettingsModal input[id^="goal_"]').forEach((el) => {
+                        const target = parseInt(el.value, 10);
+                        if (target > 0) goals[el.dataset.key!] = target;
+                    });
+                    settings.goals = goals;
+                    document.querySelectorAll<HTMLInputElement>('#guesslyticsSettingsModal input[id^="ds_"]').forEach((el) => {
+                        settings.visibleDatasets[el.dataset.key!] = el.checked;
                     });
                     settings.backfillFullHistory = (document.getElementById('backfillFull') as HTMLInputElement).checked;
                     settings.backfillDays = parseInt((document.getElementById('backfillDays') as HTMLInputElement).value, 10);
                     settings.initialZoomDays = parseInt((document.getElementById('initialZoomDays') as HTMLInputElement).value, 10);
                     settings.autoRefreshInterval = parseInt((document.getElementById('autoRefreshInterval') as HTMLInputElement).value, 10);
                     settings.apiRequestDelay = parseInt((document.getElementById('apiRequestDelay') as HTMLInputElement).value, 10);
+                    settings.maxParallelRequests = Math.min(4, Math.max(1,
+                        parseInt((document.getElementById('maxParallelRequests') as HTMLInputElement).value, 10) || 1));
                     settings.backgroundOpacity = parseInt((document.getElementById('bgOpacity') as HTMLInputElement).value, 10);
+                    settings.statsMode = (document.getElementById('statsMode') as HTMLSelectElement).value as StatsMode;
+                    settings.statsTimeframe = parseInt((document.getElementById('statsTimeframe') as HTMLInputElement).value, 10);
                     settings.verboseLogging = (document.getElementById('verboseLogging') as HTMLInputElement).checked;
 
                     logger.setLogging(settings.verboseLogging);
@@ -211,7 +397,7 @@ import { BackfillState, Settings } from './types';
                     // Trigger a new backfill if the user increased the history duration or changed to full history.
                     const newLimit = settings.backfillFullHistory ? 9999 : settings.backfillDays;
                     const oldLimit = oldSettings.backfillFullHistory ? 9999 : oldSettings.backfillDays;
-                    const backfillState = (await GM_getValue(BACKFILL_STATE_KEY, { lastLimitDays: 0, lastSyncTimestamp: null, ended: false })) as BackfillState;
+                    const backfillState = await getBackfillState();
                     
                     // Check if user changed from limited to full history
                     const changedToFullHistory = settings.backfillFullHistory && !oldSettings.backfillFullHistory;
@@ -219,7 +405,7 @@ import { BackfillState, Settings } from './types';
                     if (changedToFullHistory) {
                         // Reset the ended flag when changing to full history to allow syncing older entries
                         logger.log('Changed from limited to full history. Resetting ended flag and triggering new backfill.');
-                        await GM_setValue(BACKFILL_STATE_KEY, {
+                        await setBackfillState({
                             ...backfillState,
                             ended: false
                         });
@@ -228,7 +414,7 @@ import { BackfillState, Settings } from './types';
                         // Reset the ended flag when increasing the cutoff date to allow syncing older entries
                         if (backfillState.ended) {
                             logger.log('Increased cutoff date. Resetting ended flag and triggering new backfill.');
-                            await GM_setValue(BACKFILL_STATE_KEY, {
+                            await setBackfillState({
                                 ...backfillState,
                                 ended: false
                             });
@@ -254,6 +440,9 @@ import { BackfillState, Settings } from './types';
 
         logger.log(`Guesslytics v${GM_info.script.version} Initializing...`);
 
+        // Upgrade stored data to the current schema before anything reads it.
+        await runMigrations();
+
         // Load settings and wait for the target UI element to be available.
         settings = await loadSettings();
         await waitForReady(() => document.querySelector('[class*="division-header_right"]') !== null);
@@ -264,13 +453,20 @@ import { BackfillState, Settings } from './types';
             return;
         }
 
+        // Data is stored per account. Data from before that is assigned to the first account seen.
+        await assignLegacyDataToAccount(userId);
+        await moveHistoryToIndexedDb(userId);
+        await rememberAccount(userId, getUserNick());
+        setActiveAccount(userId);
+        await runAccountMigrations(userId);
+
         // Set up the main UI, render the graph, and attach event handlers.
         setupUI(userId, settings, () => backfillHistory());
         await renderGraph(await getStoredData(), settings);
         setupSettingsPanelHandlers();
 
         // --- Initial Data Load Logic ---
-        const backfillState = (await GM_getValue(BACKFILL_STATE_KEY, { lastLimitDays: 0, lastSyncTimestamp: null, ended: false })) as BackfillState;
+        const backfillState = await getBackfillState();
         const storedData = await getStoredData();
         const needsBackfill = storedData.overall.length === 0 && !backfillState.lastSyncTimestamp && !backfillState.ended;
 
@@ -288,6 +484,10 @@ import { BackfillState, Settings } from './types';
 
     // --- Entry Point ---
 
+    // The rate limiter is shared by every run of `initScript`, so its state is rendered by a single
+    // listener. The UI it renders into may not exist yet, which `renderRateLimitState` allows for.
+    rateLimiter.subscribe(renderRateLimitState);
+
     // Use a MutationObserver to detect navigation to the multiplayer page.
     // This is more reliable than just running on script load for single-page applications.
     const observer = new MutationObserver((mutations) => {
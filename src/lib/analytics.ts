@@ -0,0 +1,134 @@
+import { RatingEntry } from '../types';
+
+/**
+ * A run of consecutive wins or losses.
+ */
+export interface Streak {
+    type: 'win' | 'loss' | null;
+    length: number;
+}
+
+/**
+ * The largest drop from a rating peak to a later trough.
+ */
+export interface Drawdown {
+    amount: number;
+    peak: RatingEntry;
+    trough: RatingEntry;
+    // Time from the trough until the rating first got back to the peak, or null if it never did.
+    recoveryMs: number | null;
+}
+
+/**
+ * Advanced metrics for a sequence of rating entries.
+ */
+export interface AdvancedAnalytics {
+    currentStreak: Streak;
+    longestWinStreak: number;
+    longestLossStreak: number;
+    maxDrawdown: Drawdown | null;
+    volatility: number;
+    lowest: RatingEntry;
+}
+
+const toTime = (entry: RatingEntry) => new Date(entry.timestamp).getTime();
+
+/**
+ * Returns the per-game rating changes of a time-ordered list of entries.
+ * @param entries The rating entries, sorted by timestamp.
+ * @returns The deltas between consecutive entries.
+ */
+export function getDeltas(entries: RatingEntry[]): number[] {
+    return entries.slice(1).map((entry, i) => entry.rating - entries[i].rating);
+}
+
+/**
+ * Calculates the current and longest win/loss streaks.
+ * A game without a rating change ends any running streak.
+ * @param deltas The per-game rating changes, oldest first.
+ * @returns The current streak and the longest win and loss streaks.
+ */
+export function calculateStreaks(deltas: number[]): {
+    current: Streak;
+    longestWin: number;
+    longestLoss: number;
+} {
+    let current: Streak = { type: null, length: 0 };
+    let longestWin = 0;
+    let longestLoss = 0;
+
+    for (const delta of deltas) {
+        const type = delta > 0 ? 'win' : delta < 0 ? 'loss' : null;
+        current = type && type === current.type ? { type, length: current.length + 1 } : { type, length: type ? 1 : 0 };
+        if (current.type === 'win') longestWin = Math.max(longestWin, current.length);
+        if (current.type === 'loss') longestLoss = Math.max(longestLoss, current.length);
+    }
+
+    return { current, longestWin, longestLoss };
+}
+
+/**
+ * Finds the largest drawdown, i.e. the biggest drop from a running peak to a later trough,
+ * and how long it took to get back to that peak.
+ * @param entries The rating entries, sorted by timestamp.
+ * @returns The largest drawdown, or null if the rating never dropped below a previous peak.
+ */
+export function calculateMaxDrawdown(entries: RatingEntry[]): Drawdown | null {
+    if (entries.length < 2) return null;
+
+    let peak = entries[0];
+    let worst: { peak: RatingEntry; trough: RatingEntry; troughIndex: number } | null = null;
+
+    entries.forEach((entry, i) => {
+        if (entry.rating > peak.rating) peak = entry;
+        const drop = peak.rating - entry.rating;
+        if (drop > 0 && (!worst || drop > worst.peak.rating - worst.trough.rating)) {
+            worst = { peak, trough: entry, troughIndex: i };
+        }
+    });
+
+    if (!worst) return null;
+    const { peak: worstPeak, trough, troughIndex } = worst;
+    const recovery = entries.slice(troughIndex + 1).find((entry) => entry.rating >= worstPeak.rating);
+
+    return {
+        amount: worstPeak.rating - trough.rating,
+        peak: worstPeak,
+        trough,
+        recoveryMs: recovery ? toTime(recovery) - toTime(trough) : null
+    };
+}
+
+/**
+ * Calculates the population standard deviation of the per-game rating changes.
+ * @param deltas The per-game rating changes.
+ * @returns The standard deviation, or 0 if there are no games.
+ */
+export function calculateVolatility(deltas: number[]): number {
+    if (deltas.length === 0) return 0;
+    const mean = deltas.reduce((sum, d) => sum + d, 0) / deltas.length;
+    const variance = deltas.reduce((sum, d) => sum + (d - mean) ** 2, 0) / deltas.length;
+    return Math.sqrt(variance);
+}
+
+/**
+ * Calculates streak, drawdown, volatility and low-point metrics for a range of entries.
+ * @param entries The rating entries, sorted by timestamp.
+ * @returns The analytics, or null if there are fewer than two entries.
+ */
+export function calculateAdvancedAnalytics(entries: RatingEntry[]): AdvancedAnalytics | null {
+    if (entries.length < 2) return null;
+
+    const deltas = getDeltas(entries);
+    const streaks = calculateStreaks(deltas);
+    const lowest = entries.reduce((low, entry) => (entry.rating < low.rating ? entry : low), entries[0]);
+
+    return {
+        currentStreak: streaks.current,
+        longestWinStreak: streaks.longestWin,
+        longestLossStreak: streaks.longestLoss,
+        maxDrawdown: calculateMaxDrawdown(entries),
+        volatility: calculateVolatility(deltas),
+        lowest
+    };
+}
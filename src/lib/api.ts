@@ -1,206 +1,58 @@
-import { DuelResponse, FeedResponse, RatingHistory } from '../types';
-import { getModeKey, getStoredData, handleError, logger, setStoredData, sleep } from './utils';
-import { BACKFILL_STATE_KEY } from './constants';
-import { renderGraph } from './ui';
+import {
+    DuelCacheStore,
+    DuelRecord,
+    DuelResponse,
+    DuelResult,
+    FeedProcessingResult,
+    FeedResponse,
+    GameBatchResult,
+    RatingHistory,
+    SyncProgress
+} from '../types';
+import {
+    addStoredEntries,
+    createEmptyHistory,
+    getBackfillState,
+    getModeKey,
+    getStoredData,
+    getStoredDuelRecords,
+    handleError,
+    logger,
+    mapWithConcurrency,
+    setBackfillState,
+    setStoredData,
+    setStoredDuelRecords
+} from './utils';
+import { getCachedDuel, loadDuelCache, putCachedDuel, saveDuelCache } from './cache';
+import { UNRANKED_GAME_MODE } from './constants';
+import { GeoGuessrClient } from './client';
+import { estimateProgress, RateBaseline, SyncController } from './sync';
+import { appendToGraph, bindSyncControls, renderSyncProgress } from './ui';
 
-// --- Request Queue & Rate Limiting State ---
-
-/**
- * A queue to process API requests sequentially, preventing race conditions and simplifying rate-limiting.
- * This ensures that requests are processed one at a time in the order they were added.
- */
-let requestQueue: (() => Promise<any>)[] = [];
-
-/**
- * Flag to indicate whether the queue is currently being processed.
- * This prevents multiple concurrent processing of the queue.
- */
-let isProcessingQueue = false;
-
-/**
- * Global rate-limiting delay (in ms). If we get a 429 response, we increase this delay
- * and let it cool down over time to prevent further rate limiting.
- */
-let rateLimitDelay = 0;
-
-/**
- * Maximum delay to apply for rate limiting (15 seconds).
- * This caps the exponential backoff to prevent excessive delays.
- */
-const RATE_LIMIT_MAX_DELAY = 15000;
-
-// --- Queue Processing ---
-
-/**
- * Processes the request queue sequentially.
- * Ensures that we only process one request at a time, respecting all delays.
- * This function is called automatically when a request is added to the queue
- * and will continue processing until the queue is empty.
- */
-async function processRequestQueue() {
-    if (isProcessingQueue || requestQueue.length === 0) return;
-    isProcessingQueue = true;
-
-    // Cool down the rate limit delay over time
-    if (rateLimitDelay > 0) {
-        rateLimitDelay = Math.max(0, rateLimitDelay - 100);
-    }
-
-    const nextRequest = requestQueue.shift();
-    if (nextRequest) {
-        try {
-            await nextRequest();
-        } catch (error) {
-            handleError(error, 'Request from queue failed', { silent: true });
-        }
-    }
-
-    isProcessingQueue = false;
-    // Process the next item in the queue after a short delay
-    if (requestQueue.length > 0) {
-        setTimeout(processRequestQueue, 100);
-    }
-}
-
-/**
- * Adds a request to the processing queue.
- * This function wraps API requests in a queue to ensure they are processed sequentially,
- * which helps prevent rate limiting and race conditions.
- * 
- * @template T The expected return type of the request
- * @param requestFn A function that returns a Promise for the API request.
- * @returns A Promise that resolves with the result of the queued request or rejects with any error.
- * 
- * @example
- * // Example usage:
- * const data = await enqueueRequest(() => fetchApi('https://example.com/api', 250));
- */
-function enqueueRequest<T>(requestFn: () => Promise<T>): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
-        // Add the request to the queue, with proper error handling
-        requestQueue.push(() => requestFn().then(resolve).catch(reject));
-        
-        // Start processing the queue if it's not already being processed
-        if (!isProcessingQueue) {
-            processRequestQueue();
-        }
-    });
-}
-
-// --- Core API Fetching ---
-
-/**
- * Executes the actual API request with retry logic and exponential backoff.
- * This function is called by the queue processor and handles all the details of making
- * an API request, including retries, rate limiting, and error handling.
- * 
- * Key features:
- * - Applies configurable delays between requests to prevent rate limiting
- * - Implements exponential backoff for retries
- * - Handles different types of errors differently (rate limiting vs. server errors)
- * - Provides detailed logging for debugging
- * 
- * @template T The expected return type of the request
- * @param url The URL to fetch.
- * @param baseApiRequestDelay The base delay from user settings (in milliseconds).
- * @param retries Number of retries for failed requests (default: 3).
- * @param retryDelay Initial delay for retries in milliseconds, which will increase exponentially (default: 1000).
- * @returns A promise that resolves with the fetched data or null if the request fails after all retries.
- */
-async function executeRequest<T>(
-    url: string,
-    baseApiRequestDelay: number,
-    retries: number = 3,
-    retryDelay: number = 1000
-): Promise<T | null> {
-    logger.log(`Executing request`, { url, baseApiRequestDelay, retries, retryDelay });
-    // Apply the base delay + any rate-limiting delay before the request
-    await sleep(baseApiRequestDelay + rateLimitDelay);
-
-    for (let i = 0; i < retries; i++) {
-        try {
-            return await new Promise<T>((resolve, reject) => {
-                GM_xmlhttpRequest({
-                    method: 'GET',
-                    url,
-                    responseType: 'json',
-                    timeout: 20000,
-                    onload: (res) => {
-                        logger.log(`Request onload`, { url, status: res.status });
-                        if (res.status >= 200 && res.status < 300) {
-                            resolve(res.response as T);
-                        } else if (res.status === 429) {
-                            reject(new Error(`API rate limit: ${res.status}`));
-                        } else if (res.status >= 500) {
-                            reject(new Error(`API server error: ${res.status}`));
-                        } else {
-                            // For other errors (e.g., 404), don't retry, just resolve null
-                            resolve(null as T);
-                        }
-                    },
-                    onerror: (err) => reject(new Error(`Network Error: ${JSON.stringify(err)}`)),
-                    ontimeout: () => reject(new Error('Request timed out')),
-                });
-            });
-        } catch (error: any) {
-            const isRateLimit = error.message?.includes('429');
-            if (isRateLimit) {
-                // If we're rate-limited, significantly increase the delay
-                rateLimitDelay = Math.min(RATE_LIMIT_MAX_DELAY, (rateLimitDelay || 2000) * 2);
-                logger.log(`Rate limited. Increasing delay to ${rateLimitDelay}ms.`);
-                const statusEl = document.getElementById('guesslyticsStatus');
-                if (statusEl) statusEl.innerHTML = `Rate limited, retrying...`;
-            }
-
-            if (i === retries - 1) {
-                handleError(error, `API request failed after all retries for ${url}`, { silent: true });
-                return null;
-            }
-
-            const currentRetryDelay = (isRateLimit ? Math.max(retryDelay, 3000) : retryDelay) + rateLimitDelay;
-            logger.log(`API request failed. Retrying in ${currentRetryDelay / 1000}s...`, { error: error.message });
-            await sleep(currentRetryDelay);
-            retryDelay *= 2; // Exponential backoff for next retry
-        }
-    }
-    return null;
-}
+// --- Data Processing ---
 
 /**
- * Fetches data from the GeoGuessr API by adding it to the request queue.
- * This is the main API function that should be used throughout the application.
- * It handles queuing, rate limiting, retries, and error handling automatically.
- * 
- * @template T The expected return type of the API response
- * @param url The URL to fetch from the GeoGuessr API.
- * @param apiRequestDelay The base delay between requests from user settings (in milliseconds).
- * @returns A promise that resolves with the fetched data or null if the request fails.
- * 
- * @example
- * // Example usage:
- * const duelData = await fetchApi<DuelResponse>(`https://game-server.geoguessr.com/api/duels/${gameId}`, 250);
- * if (duelData) {
- *   // Process the data
- * }
+ * Checks whether a feed game payload is a ranked game. The feed marks ranked games of every
+ * mode, including team duels and modes added later, with a `competitiveGameMode`.
+ * @param payload The parsed payload of a feed game entry.
+ * @returns True if the game is ranked.
  */
-export function fetchApi<T>(url: string, apiRequestDelay: number): Promise<T | null> {
-    return enqueueRequest(() => executeRequest<T>(url, apiRequestDelay));
+function isRankedGame(payload: any): boolean {
+    return typeof payload?.competitiveGameMode === 'string' && payload.competitiveGameMode !== UNRANKED_GAME_MODE;
 }
 
-// --- Data Processing ---
-
 /**
  * Recursively extracts all competitive duel games from the GeoGuessr feed.
  * The feed contains entries that can be single games or arrays of other entries (type 7).
  * This function traverses the potentially nested structure to find all relevant games.
  *
- * A game is considered a competitive duel if its `gameMode` is "Duels" and it has a
- * `competitiveGameMode` other than "None".
+ * A game is considered competitive if it has a `competitiveGameMode` other than "None",
+ * whatever its `gameMode`. This covers 1v1 duels, team duels and ranked modes added later.
  *
  * @param entries An array of feed entries from the GeoGuessr API.
  * @returns A flattened array of competitive duel game activities.
  */
-function extractDuelGamesFromFeed(entries: any[]): any[] {
+export function extractDuelGamesFromFeed(entries: any[]): any[] {
     let games: any[] = [];
     logger.log('Extracting duel games from feed', { entries });
 
@@ -214,11 +66,7 @@ function extractDuelGamesFromFeed(entries: any[]): any[] {
                 // Type 6 is a direct game entry.
                 const payload = typeof entry.payload === 'string' ? JSON.parse(entry.payload) : entry.payload;
 
-                // A game is a competitive duel if the gameMode is "Duels" and it's ranked.
-                const isCompetitiveDuel =
-                    payload.gameMode === 'Duels' && payload.competitiveGameMode && payload.competitiveGameMode !== 'None';
-
-                if (isCompetitiveDuel) {
+                if (isRankedGame(payload)) {
                     // Reconstruct the game object to have a consistent format for processing.
                     games.push({ time: entry.time, payload });
                 }
@@ -232,113 +80,393 @@ function extractDuelGamesFromFeed(entries: any[]): any[] {
     return games;
 }
 
+/**
+ * Builds a condensed duel record from a full duel response.
+ * Captures the opponents with their rating at game time, the result, round count, final health of both sides, ratings and map,
+ * so later analyses can work from storage instead of refetching the duel.
+ * @param duel The duel response from the API.
+ * @param userId The current user's ID.
+ * @param gameId The ID of the game.
+ * @param timestamp The time the game was played, as reported by the feed.
+ * @returns The duel record, or null if the user is not part of the duel.
+ */
+export function createDuelRecord(
+    duel: DuelResponse,
+    userId: string,
+    gameId: string,
+    timestamp: string
+): DuelRecord | null {
+    const ownTeam = duel.teams.find((t) => t.players.some((p) => p.playerId === userId));
+    if (!ownTeam) return null;
+
+    const player = ownTeam.players.find((p) => p.playerId === userId)!;
+    const opposingTeam = duel.teams.find((t) => t !== ownTeam);
+    const progress = player.progressChange?.rankedSystemProgress;
+
+    const playerHealth = ownTeam.health ?? null;
+    const opponentHealth = opposingTeam?.health ?? null;
+
+    // Prefer the explicit result from the API and fall back to comparing the final health.
+    let result: DuelResult;
+    if (duel.result?.isDraw) {
+        result = 'draw';
+    } else if (duel.result?.winningTeamId && ownTeam.id) {
+        result = duel.result.winningTeamId === ownTeam.id ? 'win' : 'loss';
+    } else if (playerHealth != null && opponentHealth != null && playerHealth !== opponentHealth) {
+        result = playerHealth > opponentHealth ? 'win' : 'loss';
+    } else {
+        result = 'draw';
+    }
+
+    return {
+        gameId,
+        timestamp,
+        gameMode: progress?.gameMode ?? duel.options?.competitiveGameMode ?? 'Unknown',
+        result,
+        rounds: duel.rounds?.length ?? duel.currentRoundNumber ?? 0,
+        health: { player: playerHealth, opponent: opponentHealth },
+        opponents: (opposingTeam?.players ?? []).map((p) => ({
+            playerId: p.playerId,
+            nick: p.nick,
+            rating: p.progressChange?.rankedSystemProgress?.ratingBefore ?? p.rating ?? null
+        })),
+        ratingBefore: progress?.ratingBefore ?? null,
+        ratingAfter: progress?.ratingAfter ?? null,
+        gameModeRatingBefore: progress?.gameModeRatingBefore ?? null,
+        gameModeRatingAfter: progress?.gameModeRatingAfter ?? null,
+        map: duel.options?.map ? { name: duel.options.map.name, slug: duel.options.map.slug } : null
+    };
+}
+
+/**
+ * Adds the rating entries of one duel to a batch of entries: one for the overall rating and one
+ * for the rating of the duel's mode.
+ * @param added The batch to add the entries to.
+ * @param duel The duel response.
+ * @param userId The current user's ID.
+ * @param gameId The ID of the game.
+ * @param timestamp The time the game was played, as reported by the feed.
+ * @returns True if the duel carried rating progress for the user.
+ */
+function addDuelEntries(
+    added: RatingHistory,
+    duel: DuelResponse,
+    userId: string,
+    gameId: string,
+    timestamp: string
+): boolean {
+    const player = duel.teams.flatMap((t) => t.players).find((p) => p.playerId === userId);
+    const progress = player?.progressChange?.rankedSystemProgress;
+    if (!progress) return false;
+
+    logger.log(`Found progress for game`, { gameId, progress });
+    const modeKey = getModeKey(progress.gameMode);
+    const newEntry = { timestamp, gameId };
+
+    if (progress.ratingAfter != null) {
+        added.overall.push({ ...newEntry, rating: progress.ratingAfter });
+    }
+    if (modeKey && progress.gameModeRatingAfter != null) {
+        (added[modeKey] ??= []).push({ ...newEntry, rating: progress.gameModeRatingAfter });
+    }
+    return true;
+}
+
+/**
+ * Fills in missing opponent nicks on a batch of duel records.
+ * Nicks are taken from previously stored records and from the batch itself first, so each
+ * opponent's profile is fetched at most once per batch. The remaining profiles are fetched
+ * in parallel, like the duels.
+ * @param records The duel records to update in place.
+ * @param knownNicks Nicks already known, keyed by player ID. Updated with newly fetched nicks.
+ * @param client The API client.
+ * @param controller Optional controller to pause or cancel the profile requests.
+ * @returns The number of profile requests made.
+ */
+async function resolveOpponentNicks(
+    records: DuelRecord[],
+    knownNicks: Map<string, string>,
+    client: GeoGuessrClient,
+    controller?: SyncController
+): Promise<number> {
+    const opponents = records.flatMap((record) => record.opponents);
+    opponents.forEach((opponent) => {
+        if (opponent.nick) knownNicks.set(opponent.playerId, opponent.nick);
+    });
+
+    const unknownIds = [...new Set(opponents.filter((o) => !knownNicks.has(o.playerId)).map((o) => o.playerId))];
+    let requests = 0;
+    await mapWithConcurrency(unknownIds, client.maxParallelRequests, async (playerId) => {
+        await controller?.waitIfPaused();
+        if (controller?.isCancelled) return;
+
+        const profile = await client.getUser(playerId, controller?.signal);
+        requests++;
+        if (profile?.nick) knownNicks.set(playerId, profile.nick);
+    });
+
+    opponents.forEach((opponent) => {
+        if (!opponent.nick) opponent.nick = knownNicks.get(opponent.playerId);
+    });
+    return requests;
+}
+
 /**
  * Processes games from feed entries, fetches duel data, and updates stored history.
+ * All new entries of one call (i.e. one feed page) are sorted and written to storage in a
+ * single batch, instead of once per game.
  * @param rawEntries The raw feed entries from the API.
  * @param userId The current user's ID.
- * @param apiRequestDelay The base delay for API requests.
- * @param onGameProcessed Optional callback that's called when a new game is processed.
- * @param existingGameIds Game IDs that exist lol
- * @returns A promise that resolves to true if new data was added.
+ * @param client The API client.
+ * @param onEntriesAdded Optional callback that receives the entries added by this batch.
+ * @param existingGameIds Game IDs that are already stored. Updated with newly added games.
+ * @param controller Optional controller to pause or cancel processing between games.
+ * @param sharedDuelCache The duel cache of the running sync, which the caller saves. Without it,
+ * the cache is loaded and saved for this batch alone.
+ * @returns A promise that resolves to whether new data was added, plus the counts used for sync progress.
  */
 export async function processGames(
     rawEntries: any[],
     userId: string,
-    apiRequestDelay: number,
-    onGameProcessed?: () => Promise<void>,
-    existingGameIds?: Set<string>
-): Promise<{ newDataAdded: boolean; foundExistingGame: boolean }> {
+    client: GeoGuessrClient,
+    onEntriesAdded?: (added: RatingHistory) => Promise<void>,
+    existingGameIds?: Set<string>,
+    controller?: SyncController,
+    sharedDuelCache?: DuelCacheStore
+): Promise<GameBatchResult> {
     logger.log('Processing games from feed entries', { rawEntries });
-    const storedData = await getStoredData();
+    const duelRecords = await getStoredDuelRecords();
+    const duelCache = sharedDuelCache ?? await loadDuelCache();
+    const knownNicks = new Map(
+        Object.values(duelRecords).flatMap((r) =>
+            r.opponents.filter((o) => o.nick).map((o) => [o.playerId, o.nick!] as [string, string])
+        )
+    );
     
     // Use provided existingGameIds if available, otherwise create a new set
-    const gameIds = existingGameIds || new Set(storedData.overall.map((g) => g.gameId));
+    const gameIds = existingGameIds || new Set((await getStoredData()).overall.map((g) => g.gameId));
+    const added = createEmptyHistory();
     let newDataAdded = false;
     let foundExistingGame = false;
+    let duelsExisting = 0, duelsAdded = 0, duelFetchFailures = 0, requests = 0, cacheHits = 0;
 
     const duelGames = extractDuelGamesFromFeed(rawEntries);
 
     // Sort games by time (newest first) to process in reverse chronological order
     duelGames.sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
 
-    for (const game of duelGames) {
+    // Skip stored games, and games the feed lists more than once
+    const newGames = duelGames.filter((game) => {
         const gameId = game.payload.gameId;
         if (gameIds.has(gameId)) {
             logger.log(`Found existing game in database`, { gameId });
             foundExistingGame = true;
-            continue;
+            duelsExisting++;
+            return false;
+        }
+        gameIds.add(gameId);
+        return true;
+    });
+
+    // Fetch the duels in parallel, unless they are cached. Results keep the order of the games,
+    // so they are applied in time order below.
+    const duels = await mapWithConcurrency(newGames, client.maxParallelRequests, async (game) => {
+        const gameId = game.payload.gameId;
+        const cached = getCachedDuel(duelCache, gameId);
+        if (cached) {
+            logger.log(`Using cached duel data for game`, { gameId });
+            cacheHits++;
+            return cached;
         }
 
+        await controller?.waitIfPaused();
+        if (controller?.isCancelled) return undefined;
+
         logger.log(`Fetching duel data for game`, { gameId });
-        const duel = await fetchApi<DuelResponse>(
-            `https://game-server.geoguessr.com/api/duels/${gameId}`,
-            apiRequestDelay
-        );
+        const duel = await client.getDuel(gameId, controller?.signal);
+        requests++;
+        if (duel) putCachedDuel(duelCache, gameId, game.time, duel);
+        return duel;
+    });
+    if (controller?.isCancelled) logger.log('Sync cancelled, skipping games that were not fetched.');
+    if (!sharedDuelCache) await saveDuelCache(duelCache);
+
+    const newRecords: DuelRecord[] = [];
+    for (const [i, game] of newGames.entries()) {
+        const gameId = game.payload.gameId;
+        const duel = duels[i];
 
         if (!duel) {
+            // Games that were not fetched are forgotten again, so a later page or sync retries them.
+            gameIds.delete(gameId);
+            if (duel === undefined) continue; // Skipped after the sync was cancelled
             logger.log(`No duel data found for game`, { gameId });
+            if (!controller?.isCancelled) duelFetchFailures++;
             continue;
         }
 
-        const player = duel.teams.flatMap((t) => t.players).find((p) => p.playerId === userId);
-        const progress = player?.progressChange?.rankedSystemProgress;
+        if (!addDuelEntries(added, duel, userId, gameId, game.time)) {
+            gameIds.delete(gameId);
+            continue;
+        }
 
-        if (progress) {
-            logger.log(`Found progress for game`, { gameId, progress });
-            const modeKey = getModeKey(progress.gameMode);
-            const newEntry = { timestamp: game.time, gameId };
+        const record = createDuelRecord(duel, userId, gameId, game.time);
+        if (record) {
+            newRecords.push(record);
+            duelRecords[gameId] = record;
+        }
 
-            if (progress.ratingAfter != null) {
-                storedData.overall.push({ ...newEntry, rating: progress.ratingAfter });
-            }
-            if (modeKey && progress.gameModeRatingAfter != null) {
-                storedData[modeKey].push({ ...newEntry, rating: progress.gameModeRatingAfter });
-            }
-            newDataAdded = true;
-            gameIds.add(gameId);
-            
-            // Sort and save after each game is processed
-            for (const key in storedData) {
-                storedData[key as keyof RatingHistory].sort(
-                    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-                );
-            }
-            await setStoredData(storedData);
-            
-            // Call the callback if provided
-            if (onGameProcessed) {
-                await onGameProcessed();
+        newDataAdded = true;
+        duelsAdded++;
+    }
+
+    requests += await resolveOpponentNicks(newRecords, knownNicks, client, controller);
+
+    // A cancelled sync stores nothing more, so data cleared while it winds down stays cleared.
+    // The fetched duels stay cached, so the next sync adds them without requests.
+    if (controller?.isCancelled && newDataAdded) {
+        logger.log('Sync cancelled, not storing the games of this batch.');
+        newDataAdded = false;
+        duelsAdded = 0;
+    }
+
+    if (newDataAdded) {
+        // Sort and save the whole batch at once
+        for (const key in added) {
+            added[key].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        }
+        await addStoredEntries(added);
+        await setStoredDuelRecords(duelRecords);
+
+        // Call the callback if provided
+        if (onEntriesAdded) {
+            await onEntriesAdded(added);
+        }
+    }
+
+    return {
+        newDataAdded,
+        foundExistingGame,
+        duelsFound: duelGames.length,
+        duelsExisting,
+        duelsAdded,
+        duelFetchFailures,
+        requests,
+        cacheHits
+    };
+}
+
+/**
+ * Rebuilds the rating history and duel records of all cached duels, without any network requests.
+ * This recomputes derived data, e.g. after clearing it or after a change in how it is derived.
+ * Games that are not cached, such as imported ones, are kept as they are.
+ * @param userId The ID of the active account, whose stored data is rebuilt.
+ * @returns A promise that resolves with the number of games rebuilt from the cache.
+ */
+export async function rebuildHistoryFromCache(userId: string): Promise<number> {
+    const cache = await loadDuelCache();
+    const storedData = await getStoredData();
+    const duelRecords = await getStoredDuelRecords();
+
+    const rebuilt = createEmptyHistory();
+    const rebuiltIds = new Set<string>();
+    for (const [gameId, entry] of Object.entries(cache.entries)) {
+        if (!addDuelEntries(rebuilt, entry.duel, userId, gameId, entry.timestamp)) continue;
+        rebuiltIds.add(gameId);
+
+        const record = createDuelRecord(entry.duel, userId, gameId, entry.timestamp);
+        if (record) {
+            // Cached duels may lack nicks that were looked up separately, so keep the known ones.
+            const previous = duelRecords[gameId];
+            for (const opponent of record.opponents) {
+                opponent.nick ??= previous?.opponents.find((o) => o.playerId === opponent.playerId)?.nick;
             }
+            duelRecords[gameId] = record;
         }
     }
 
-    return { newDataAdded, foundExistingGame };
+    for (const key in rebuilt) {
+        storedData[key] = (storedData[key] ?? [])
+            .filter((e) => !rebuiltIds.has(e.gameId))
+            .concat(rebuilt[key])
+            .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    }
+    await setStoredData(storedData);
+    await setStoredDuelRecords(duelRecords);
+
+    logger.log('Rebuilt history from the duel cache', { games: rebuiltIds.size });
+    return rebuiltIds.size;
+}
+
+/**
+ * Gets the newest and oldest entry times of a feed page.
+ * @param feed The feed page.
+ * @returns The time range, or null if no entry has a time.
+ */
+function getFeedTimeRange(feed: FeedResponse): { newest: string; oldest: string } | null {
+    const times = feed.entries.map((e) => e.time).filter((t): t is string => !!t);
+    if (times.length === 0) return null;
+    return {
+        newest: times.reduce((a, b) => (new Date(a) > new Date(b) ? a : b)),
+        oldest: times.reduce((a, b) => (new Date(a) < new Date(b) ? a : b))
+    };
+}
+
+/**
+ * Options for processing feed pages. `onProgress` is called after every processed page.
+ */
+interface FeedProcessingOptions {
+    maxPages?: number;
+    cutoffDate?: Date;
+    onEntriesAdded?: (added: RatingHistory) => Promise<void>;
+    onProgress?: (progress: SyncProgress) => void;
+    controller?: SyncController;
 }
 
 /**
  * Processes feed pages to find and process games.
  * This is a common helper function used by both backfillHistory and checkForUpdates.
+ * The duel cache is loaded once for all pages and saved once when processing ends, also
+ * after a cancel or an error.
  * @param userId The user's ID.
- * @param apiRequestDelay The base delay for API requests.
+ * @param client The API client.
  * @param options Additional options for processing.
  * @returns A promise that resolves to an object with the results of the processing.
  */
 export async function processFeedPages(
     userId: string,
-    apiRequestDelay: number,
-    options: {
-        initialUrl?: string;
-        maxPages?: number;
-        cutoffDate?: Date;
-        onGameProcessed?: () => Promise<void>;
+    client: GeoGuessrClient,
+    options: FeedProcessingOptions
+): Promise<FeedProcessingResult> {
+    const duelCache = await loadDuelCache();
+    try {
+        return await pageThroughFeed(userId, client, options, duelCache);
+    } finally {
+        await saveDuelCache(duelCache);
     }
-): Promise<{ newDataAdded: boolean; reachedEnd: boolean; pagesProcessed: number }> {
+}
+
+/**
+ * Pages through the feed for `processFeedPages`.
+ * @param userId The user's ID.
+ * @param client The API client.
+ * @param options Additional options for processing.
+ * @param duelCache The duel cache shared by all pages.
+ * @returns A promise that resolves to an object with the results of the processing.
+ */
+async function pageThroughFeed(
+    userId: string,
+    client: GeoGuessrClient,
+    options: FeedProcessingOptions,
+    duelCache: DuelCacheStore
+): Promise<FeedProcessingResult> {
     // Extract options with defaults
     const {
-        initialUrl = 'https://www.geoguessr.com/api/v4/feed/private',
         maxPages = 500,
         cutoffDate,
-        onGameProcessed
+        onEntriesAdded,
+        onProgress,
+        controller
     } = options;
 
     // Initialize state variables
@@ -353,26 +481,121 @@ export async function processFeedPages(
     const existingGameIds = new Set(storedData.overall.map((g) => g.gameId));
     
     // Get backfill state
-    const backfillState = await GM_getValue(BACKFILL_STATE_KEY, { lastLimitDays: 0, lastSyncTimestamp: null, ended: false });
+    const backfillState = await getBackfillState();
+    let cursor = backfillState.ended ? null : backfillState.cursor ?? null;
+    let resumeFallbackToken: string | null = null; // Where to continue if the saved cursor is rejected
+
+    const progress: SyncProgress = {
+        startedAt: Date.now(),
+        pagesFetched: 0,
+        duelsFound: 0,
+        duelsExisting: 0,
+        duelsAdded: 0,
+        duelFetchFailures: 0,
+        requests: 0,
+        cacheHits: 0,
+        oldestTimestamp: null,
+        cutoffTimestamp: cutoffDate ? cutoffDate.toISOString() : null,
+        daysToCutoff: null,
+        etaMs: null
+    };
+    let rateBaseline: RateBaseline | null = null;
+
+    /**
+     * Adds a processed page to the progress and reports it. The rate used for the time estimate
+     * is measured from the newest game of the first page, or from the cursor after a resume.
+     */
+    const reportProgress = (feed: FeedResponse, batch: GameBatchResult) => {
+        progress.pagesFetched++;
+        progress.requests += batch.requests + 1;
+        progress.duelsFound += batch.duelsFound;
+        progress.duelsExisting += batch.duelsExisting;
+        progress.duelsAdded += batch.duelsAdded;
+        progress.duelFetchFailures += batch.duelFetchFailures;
+        progress.cacheHits += batch.cacheHits;
+
+        const range = getFeedTimeRange(feed);
+        if (range) {
+            if (!progress.oldestTimestamp || new Date(range.oldest) < new Date(progress.oldestTimestamp)) {
+                progress.oldestTimestamp = range.oldest;
+            }
+            rateBaseline ??= { timestamp: new Date(range.newest).getTime(), requests: 0, at: progress.startedAt };
+        }
+
+        if (onProgress && rateBaseline) {
+            onProgress(estimateProgress(progress, rateBaseline));
+        }
+    };
+
+    /**
+     * Saves the position after a page as the resume cursor, but only if it is further back than
+     * the current cursor, so catching up on new games at the top never moves the cursor forward.
+     * Once a duel of this sync could not be fetched the cursor stays put, so the next sync pages
+     * through that game again instead of jumping past it.
+     */
+    const advanceCursor = async (feed: FeedResponse) => {
+        if (progress.duelFetchFailures > 0) return;
+        const range = getFeedTimeRange(feed);
+        if (!feed.paginationToken || !range) return;
+        const { oldest } = range;
+        if (cursor && new Date(oldest) >= new Date(cursor.oldestTimestamp)) return;
+        cursor = { paginationToken: feed.paginationToken, oldestTimestamp: oldest };
+        await setBackfillState({ ...(await getBackfillState()), cursor });
+    };
+
+    /**
+     * Once the feed reaches games that are already stored, jumps straight to the saved cursor
+     * instead of paging through the known part of the history again.
+     */
+    const resumeFromCursor = (feed: FeedResponse, foundExisting: boolean): boolean => {
+        if (!foundExisting || !cursor || resumeFallbackToken !== null || !feed.paginationToken) return false;
+        if (feed.paginationToken === cursor.paginationToken) return false;
+        logger.log('Resuming backfill from saved cursor', { oldestTimestamp: cursor.oldestTimestamp });
+        resumeFallbackToken = feed.paginationToken;
+        paginationToken = cursor.paginationToken;
+        // The skipped part of the history took no requests, so measure the rate from the cursor on
+        progress.oldestTimestamp = cursor.oldestTimestamp;
+        rateBaseline = {
+            timestamp: new Date(cursor.oldestTimestamp).getTime(),
+            requests: progress.requests,
+            at: Date.now()
+        };
+        return true;
+    };
     
     logger.log('Starting feed processing', { 
         backfillStateEnded: backfillState.ended,
+        hasCursor: !!cursor,
         existingGamesCount: existingGameIds.size,
         hasCutoffDate: !!cutoffDate,
         cutoffDate: cutoffDate ? cutoffDate.toISOString() : 'none'
     });
 
     // --- Process first page ---
-    const initialFeed = await fetchApi<FeedResponse>(initialUrl, apiRequestDelay);
+    const initialFeed = await client.getFeedPage(undefined, controller?.signal);
     if (!initialFeed) {
         logger.log('Failed to fetch initial feed page.');
         return { newDataAdded, reachedEnd, pagesProcessed };
     }
 
     // Process games from first page
-    const firstPageResult = await processGames(initialFeed.entries, userId, apiRequestDelay, onGameProcessed, existingGameIds);
+    const firstPageResult = await processGames(
+        initialFeed.entries,
+        userId,
+        client,
+        onEntriesAdded,
+        existingGameIds,
+        controller,
+        duelCache
+    );
     newDataAdded = firstPageResult.newDataAdded;
     foundExistingGame = firstPageResult.foundExistingGame;
+    reportProgress(initialFeed, firstPageResult);
+
+    if (controller?.isCancelled) {
+        logger.log('Sync cancelled on the first page.');
+        return { newDataAdded, reachedEnd, pagesProcessed, cancelled: true };
+    }
 
     // Check if we reached the end of the feed
     paginationToken = initialFeed.paginationToken;
@@ -381,6 +604,7 @@ export async function processFeedPages(
         reachedEnd = true;
         return { newDataAdded, reachedEnd, pagesProcessed };
     }
+    await advanceCursor(initialFeed);
 
     // Check if we should stop after the first page
     if (foundExistingGame && backfillState.ended) {
@@ -401,8 +625,16 @@ export async function processFeedPages(
         }
     }
 
+    resumeFromCursor(initialFeed, foundExistingGame);
+
     // --- Process subsequent pages ---
     while (paginationToken && pagesProcessed < maxPages) {
+        await controller?.waitIfPaused();
+        if (controller?.isCancelled) {
+            logger.log('Sync cancelled. Stopping feed processing.');
+            break;
+        }
+
         // Stop if we found an existing game and history end was reached
         if (foundExistingGame && backfillState.ended) {
             logger.log('Found existing game and history end was reached. Stopping feed processing.');
@@ -413,21 +645,42 @@ export async function processFeedPages(
         logger.log(`Processing feed page ${pagesProcessed}`);
 
         // Fetch next page
-        const feedData = await fetchApi<FeedResponse>(
-            `https://www.geoguessr.com/api/v4/feed/private?paginationToken=${paginationToken}`,
-            apiRequestDelay
-        );
+        const feedData = await client.getFeedPage(paginationToken, controller?.signal);
 
         if (!feedData) {
+            if (controller?.isCancelled) break;
+            // The server may no longer accept an old cursor, so drop it and continue the normal way.
+            if (cursor && paginationToken === cursor.paginationToken && resumeFallbackToken) {
+                logger.log('Saved cursor was rejected, discarding it.');
+                cursor = null;
+                await setBackfillState({ ...(await getBackfillState()), cursor: null });
+                paginationToken = resumeFallbackToken;
+                continue;
+            }
             logger.log(`No feed data on page ${pagesProcessed}, stopping.`);
             break;
         }
 
         // Process games from this page
-        const pageResult = await processGames(feedData.entries, userId, apiRequestDelay, onGameProcessed, existingGameIds);
+        const pageResult = await processGames(
+            feedData.entries,
+            userId,
+            client,
+            onEntriesAdded,
+            existingGameIds,
+            controller,
+            duelCache
+        );
         if (pageResult.newDataAdded) {
             newDataAdded = true;
         }
+        reportProgress(feedData, pageResult);
+
+        // A page that was cut short must not move the cursor past games that were skipped
+        if (controller?.isCancelled) {
+            logger.log('Sync cancelled. Stopping feed processing.');
+            break;
+        }
         
         if (pageResult.foundExistingGame) {
             foundExistingGame = true;
@@ -465,8 +718,8 @@ export async function processFeedPages(
             reachedEnd = true;
             break;
         }
-
-        await sleep(apiRequestDelay);
+        await advanceCursor(feedData);
+        resumeFromCursor(feedData, pageResult.foundExistingGame);
     }
 
     // Log completion
@@ -476,10 +729,11 @@ export async function processFeedPages(
         reachedEnd, 
         foundExistingGame,
         backfillStateEnded: backfillState.ended,
-        stoppedDueToCutoff: cutoffDate ? 'possibly' : 'no'
+        stoppedDueToCutoff: cutoffDate ? 'possibly' : 'no',
+        cancelled: !!controller?.isCancelled
     });
     
-    return { newDataAdded, reachedEnd, pagesProcessed };
+    return { newDataAdded, reachedEnd, pagesProcessed, cancelled: !!controller?.isCancelled };
 }
 
 /**
@@ -499,7 +753,8 @@ export async function processFeedPages(
  * @param setSyncState A callback to update the UI's sync status.
  * @param settings The user's current settings.
  * @param callback The callback to call after sync operations.
- * @param options Additional options to customize the sync behavior.
+ * @param options Additional options to customize the sync behavior. A `client` with a custom
+ * transport can be passed in, e.g. to run the sync against recorded responses.
  * @returns A promise that resolves to an object with the results of the sync operation.
  */
 export async function syncRatingHistory(
@@ -511,21 +766,29 @@ export async function syncRatingHistory(
     options: {
         isBackfill?: boolean;
         logPrefix?: string;
+        controller?: SyncController;
+        client?: GeoGuessrClient;
     } = {}
-): Promise<{ newDataAdded: boolean; reachedEnd: boolean; pagesProcessed: number }> {
+): Promise<FeedProcessingResult> {
     const { isBackfill = false, logPrefix = 'Sync' } = options;
+    const controller = options.controller ?? new SyncController();
+    const client = options.client ?? new GeoGuessrClient({
+        apiRequestDelay,
+        maxParallelRequests: settings.maxParallelRequests
+    });
 
     logger.log(`${logPrefix}: Starting operation`);
 
-    setSyncState(
-        true, 
-        `Syncing...`,
-        settings, 
-        callback
-    );
-
     try {
-        const backfillState = await GM_getValue(BACKFILL_STATE_KEY, { lastLimitDays: 0, lastSyncTimestamp: null, ended: false });
+        bindSyncControls(controller);
+        setSyncState(
+            true, 
+            `Syncing...`,
+            settings, 
+            callback
+        );
+
+        const backfillState = await getBackfillState();
         
         // Calculate cutoff date if not doing a full history sync
         const cutoffDate = !settings.backfillFullHistory ? new Date() : undefined;
@@ -538,25 +801,28 @@ export async function syncRatingHistory(
         }
         
         // Process feed pages
-        const result = await processFeedPages(userId, apiRequestDelay, {
+        const result = await processFeedPages(userId, client, {
             cutoffDate,
-            onGameProcessed: async () => {
-                // Render graph and update status after each game
-                const data = await getStoredData();
-                await renderGraph(data, settings);
-                
-                // Update status with current progress
-                const oldestGame = data.overall[0];
-                setSyncState(
-                    true, 
-                    `Syncing (${new Date(oldestGame.timestamp).toLocaleDateString()})...`, 
-                    settings, 
-                    callback
-                );
+            controller,
+            onEntriesAdded: async (added) => {
+                // Append the new points to the existing chart instead of rebuilding it
+                await appendToGraph(added, settings);
+            },
+            onProgress: (progress) => {
+                logger.log(`${logPrefix}: Progress`, progress);
+                renderSyncProgress(progress, controller.isPaused);
             },
         });
 
-        const { newDataAdded, reachedEnd, pagesProcessed } = result;
+        const { newDataAdded, reachedEnd, pagesProcessed, cancelled } = result;
+
+        if (cancelled) {
+            // The resume cursor was saved after the last complete page, so the backfill state is
+            // left as is and the next sync continues from there.
+            logger.log(`${logPrefix}: Operation cancelled`, { newDataAdded, pagesProcessed });
+            setSyncState(false, 'Sync cancelled', settings, callback);
+            return result;
+        }
         
         logger.log(`${logPrefix}: Operation completed`, { 
             newDataAdded, 
@@ -565,23 +831,18 @@ export async function syncRatingHistory(
             backfillStateEnded: backfillState.ended
         });
 
-        // Set final status message with the same format as during sync
-        const finalData = await getStoredData();
-        
-        
         // Different status message based on operation type and result
         setSyncState(false, `✓ Up-to-date`, settings, callback);
 
-        // Update backfill state
-        await GM_setValue(BACKFILL_STATE_KEY, {
+        // Update backfill state, keeping the resume cursor saved during processing unless the end was reached
+        const latestState = await getBackfillState();
+        await setBackfillState({
             lastLimitDays: settings.backfillFullHistory ? 9999 : settings.backfillDays,
             lastSyncTimestamp: Date.now(),
             ended: isBackfill ? reachedEnd : (reachedEnd ? true : backfillState.ended),
+            cursor: reachedEnd ? null : latestState.cursor,
         });
 
-        // Render final graph
-        await renderGraph(finalData, settings);
-
         return result;
     } catch (error) {
         handleError(error, `${logPrefix}: Operation failed`, {
@@ -590,6 +851,9 @@ export async function syncRatingHistory(
             callback
         });
         return { newDataAdded: false, reachedEnd: false, pagesProcessed: 0 };
+    } finally {
+        bindSyncControls(null);
+        renderSyncProgress(null);
     }
 }
 
@@ -601,6 +865,7 @@ export async function syncRatingHistory(
  * @param {function} setSyncState - A callback function to set the sync state, optionally providing text, settings, and an additional callback.
  * @param {any} settings - Configuration settings used during the update process.
  * @param {function} callback - A callback function to execute additional logic after the synchronization process.
+ * @param {SyncController} [controller] - Optional controller to pause or cancel the sync.
  * @return {Promise<boolean>} A promise that resolves to a boolean indicating whether new data was added during the update check.
  */
 export async function checkForUpdates(
@@ -608,11 +873,13 @@ export async function checkForUpdates(
     apiRequestDelay: number,
     setSyncState: (syncing: boolean, text?: string, settings?: any, callback?: () => Promise<void>) => void,
     settings: any,
-    callback: () => Promise<void>
+    callback: () => Promise<void>,
+    controller?: SyncController
 ): Promise<boolean> {
     const result = await syncRatingHistory(userId, apiRequestDelay, setSyncState, settings, callback, {
         isBackfill: false,
-        logPrefix: 'Update check'
+        logPrefix: 'Update check',
+        controller
     });
     
     return result.newDataAdded;
@@ -0,0 +1,158 @@
+import { CachedDuel, DuelCacheStore, DuelResponse } from '../types';
+import { DUEL_CACHE_KEY, DUEL_CACHE_MAX_BYTES, DUEL_CACHE_MAX_ENTRIES, DUEL_CACHE_VERSION } from './constants';
+import { logger } from './utils';
+
+/**
+ * Caches that were changed since they were loaded or last saved. Saving an unchanged cache is
+ * skipped, since the whole cache is written at once and can be several megabytes.
+ */
+const changedStores = new WeakSet<DuelCacheStore>();
+
+/**
+ * Reduces a duel response to the fields the script reads.
+ * Full responses carry every guess of every round, which would fill the cache quickly.
+ * @param duel The duel response from the API.
+ * @returns The trimmed duel.
+ */
+export function trimDuel(duel: DuelResponse): DuelResponse {
+    return {
+        gameId: duel.gameId,
+        status: duel.status,
+        currentRoundNumber: duel.currentRoundNumber,
+        teams: duel.teams.map((team) => ({
+            id: team.id,
+            name: team.name,
+            health: team.health,
+            players: team.players.map((player) => ({
+                playerId: player.playerId,
+                nick: player.nick,
+                rating: player.rating,
+                countryCode: player.countryCode,
+                progressChange: player.progressChange?.rankedSystemProgress
+                    ? { rankedSystemProgress: player.progressChange.rankedSystemProgress }
+                    : undefined
+            }))
+        })),
+        rounds: duel.rounds?.map((round) => ({
+            roundNumber: round.roundNumber,
+            startTime: round.startTime,
+            endTime: round.endTime
+        })),
+        options: duel.options && {
+            map: duel.options.map && { name: duel.options.map.name, slug: duel.options.map.slug },
+            initialHealth: duel.options.initialHealth,
+            competitiveGameMode: duel.options.competitiveGameMode
+        },
+        result: duel.result
+    };
+}
+
+/**
+ * Loads the duel cache from storage.
+ * The cache is deliberately shared by all accounts: a duel response is the same for every
+ * player in it, so two local accounts that played each other reuse it, and rebuilding an
+ * account's history only picks the duels that account has rating progress in.
+ * Load it once per sync and save it once at the end, rather than once per feed page.
+ * @returns The cache, or an empty one if none is stored or it has an unsupported version.
+ */
+export async function loadDuelCache(): Promise<DuelCacheStore> {
+    const store = (await GM_getValue(DUEL_CACHE_KEY)) as DuelCacheStore | undefined;
+    if (!store?.entries || store.version !== DUEL_CACHE_VERSION) {
+        return { version: DUEL_CACHE_VERSION, entries: {} };
+    }
+    return store;
+}
+
+/**
+ * Saves the duel cache to storage, evicting entries first if it is over its limits.
+ * Does nothing if the cache was not changed since it was loaded or last saved.
+ * @param store The cache to save.
+ */
+export async function saveDuelCache(store: DuelCacheStore): Promise<void> {
+    if (!changedStores.has(store)) return;
+    changedStores.delete(store);
+    const evicted = evictDuelCache(store);
+    if (evicted > 0) logger.log(`Evicted ${evicted} duels from the cache.`);
+    await GM_setValue(DUEL_CACHE_KEY, store);
+}
+
+/**
+ * Removes all cached duels.
+ */
+export async function clearDuelCache(): Promise<void> {
+    await GM_setValue(DUEL_CACHE_KEY, { version: DUEL_CACHE_VERSION, entries: {} });
+}
+
+/**
+ * Looks up a duel in the cache and marks it as recently used.
+ * @param store The cache.
+ * @param gameId The ID of the game.
+ * @param now The current time.
+ * @returns The cached duel, or null if it is not cached.
+ */
+export function getCachedDuel(store: DuelCacheStore, gameId: string, now: number = Date.now()): DuelResponse | null {
+    const entry = store.entries[gameId];
+    if (!entry) return null;
+    entry.lastUsed = now;
+    changedStores.add(store);
+    return entry.duel;
+}
+
+/**
+ * Adds a duel to the cache in trimmed form.
+ * @param store The cache.
+ * @param gameId The ID of the game.
+ * @param timestamp The time the game was played, as reported by the feed.
+ * @param duel The duel response from the API.
+ * @param now The current time.
+ */
+export function putCachedDuel(
+    store: DuelCacheStore,
+    gameId: string,
+    timestamp: string,
+    duel: DuelResponse,
+    now: number = Date.now()
+): void {
+    const trimmed = trimDuel(duel);
+    store.entries[gameId] = { timestamp, duel: trimmed, size: JSON.stringify(trimmed).length, lastUsed: now };
+    changedStores.add(store);
+}
+
+/**
+ * Evicts the least recently used duels until the cache is within its entry and size limits.
+ * @param store The cache to shrink in place.
+ * @param maxEntries The maximum number of duels.
+ * @param maxBytes The maximum approximate size in bytes.
+ * @returns The number of evicted duels.
+ */
+export function evictDuelCache(
+    store: DuelCacheStore,
+    maxEntries: number = DUEL_CACHE_MAX_ENTRIES,
+    maxBytes: number = DUEL_CACHE_MAX_BYTES
+): number {
+    const entries = Object.entries(store.entries);
+    let bytes = entries.reduce((sum, [, entry]) => sum + entry.size, 0);
+    if (entries.length <= maxEntries && bytes <= maxBytes) return 0;
+
+    entries.sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    let count = entries.length;
+    let evicted = 0;
+    for (const [gameId, entry] of entries) {
+        if (count <= maxEntries && bytes <= maxBytes) break;
+        delete store.entries[gameId];
+        bytes -= entry.size;
+        count--;
+        evicted++;
+    }
+    return evicted;
+}
+
+/**
+ * Summarizes the cache for display.
+ * @param store The cache.
+ * @returns The number of cached duels and their approximate size in bytes.
+ */
+export function getDuelCacheStats(store: DuelCacheStore): { count: number; bytes: number } {
+    const entries = Object.values<CachedDuel>(store.entries);
+    return { count: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+}
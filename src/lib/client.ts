@@ -0,0 +1,232 @@
+import { DuelResponse, FeedResponse, ProfileResponse, RateLimitBucket, Transport, UserProfile } from '../types';
+import { API_ENDPOINTS } from './constants';
+import { RateLimiter, rateLimiter } from './ratelimit';
+import { handleError, logger, sleep } from './utils';
+
+// --- Core API Fetching ---
+
+/**
+ * An error response from the API. Carries the HTTP status, so callers can branch on it
+ * instead of on the message.
+ */
+export class ApiError extends Error {
+    /**
+     * @param status The HTTP status of the response.
+     * @param message The error message.
+     */
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+/**
+ * Gets the rate-limit budget a URL draws from.
+ * @param url The request URL.
+ * @returns The bucket for the URL.
+ */
+function getBucket(url: string): RateLimitBucket {
+    if (url.startsWith(API_ENDPOINTS.FEED)) return 'feed';
+    if (url.startsWith(API_ENDPOINTS.DUELS)) return 'duels';
+    return 'other';
+}
+
+/**
+ * Executes an API request with retry logic and exponential backoff.
+ * The rate limiter decides when each attempt may start; after a 429 it blocks the bucket for
+ * the time the server asked for, so rate-limited attempts are retried without an extra delay.
+ *
+ * @template T The expected return type of the request
+ * @param transport The transport that performs the HTTP request.
+ * @param limiter The rate limiter to draw from.
+ * @param url The URL to fetch.
+ * @param signal Optional signal to cancel the request; no further retries are made once aborted.
+ * @param retries Number of retries for failed requests (default: 3).
+ * @param retryDelay Initial delay for retries after server and network errors in milliseconds, which will increase exponentially (default: 1000).
+ * @returns A promise that resolves with the fetched data or null if the request fails after all retries.
+ */
+async function executeRequest<T>(
+    transport: Transport,
+    limiter: RateLimiter,
+    url: string,
+    signal?: AbortSignal,
+    retries: number = 3,
+    retryDelay: number = 1000
+): Promise<T | null> {
+    logger.log(`Executing request`, { url, retries, retryDelay });
+    const bucket = getBucket(url);
+
+    for (let i = 0; i < retries; i++) {
+        if (!(await limiter.acquire(bucket, signal))) {
+            logger.log('Request cancelled', { url });
+            return null;
+        }
+
+        let error: Error;
+        try {
+            const res = await transport({ method: 'GET', url, timeout: 20000 });
+            limiter.release(bucket, res);
+            logger.log(`Request onload`, { url, status: res.status });
+            if (res.status >= 200 && res.status < 300) {
+                return res.body as T;
+            } else if (res.status === 429) {
+                error = new ApiError(res.status, `API rate limit: ${res.status}`);
+            } else if (res.status >= 500) {
+                error = new ApiError(res.status, `API server error: ${res.status}`);
+            } else {
+                // For other errors (e.g., 404), don't retry, just return null
+                return null;
+            }
+        } catch (networkError: any) {
+            limiter.release(bucket, null);
+            error = networkError;
+        }
+
+        if (i === retries - 1) {
+            handleError(error, `API request failed after all retries for ${url}`, { silent: true });
+            return null;
+        }
+
+        logger.log(`API request failed. Retrying...`, { error: error.message });
+        // The limiter already holds back rate-limited retries, so only other failures back off here.
+        if (!(error instanceof ApiError && error.status === 429)) {
+            await sleep(retryDelay, signal);
+            retryDelay *= 2; // Exponential backoff for next retry
+        }
+    }
+    return null;
+}
+
+// --- Transports ---
+
+/**
+ * Parses the raw header block of a `GM_xmlhttpRequest` response.
+ * @param raw The headers as "name: value" lines.
+ * @returns The headers, keyed by lower-cased name.
+ */
+function parseHeaders(raw: string = ''): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of raw.split(/\r?\n/)) {
+        const separator = line.indexOf(':');
+        if (separator > 0) headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+    return headers;
+}
+
+/**
+ * The default transport, which performs requests through `GM_xmlhttpRequest`.
+ * Requests are made with the user's GeoGuessr session, so no extra authentication is needed.
+ * @param request The request to perform.
+ * @returns A promise that resolves with the status, headers and parsed JSON body.
+ */
+export const gmTransport: Transport = (request) =>
+    new Promise((resolve, reject) => {
+        GM_xmlhttpRequest({
+            method: request.method,
+            url: request.url,
+            responseType: 'json',
+            timeout: request.timeout,
+            onload: (res) => resolve({ status: res.status, body: res.response, headers: parseHeaders(res.responseHeaders) }),
+            onerror: (err) => reject(new Error(`Network Error: ${JSON.stringify(err)}`)),
+            ontimeout: () => reject(new Error('Request timed out')),
+        });
+    });
+
+/**
+ * Creates a transport that answers from recorded fixtures instead of the network, for tests.
+ * A fixture is either the JSON body to return with status 200, or a function that builds the
+ * full response (e.g. to simulate a 429). Unknown URLs answer with a 404.
+ * @param fixtures The fixtures, keyed by full request URL.
+ * @returns The transport, with the list of requested URLs in `requests`.
+ */
+export function createFakeTransport(
+    fixtures: Record<string, unknown>
+): Transport & { requests: string[] } {
+    const requests: string[] = [];
+    const transport: Transport = async (request) => {
+        requests.push(request.url);
+        if (!(request.url in fixtures)) return { status: 404, body: null, headers: {} };
+        const fixture = fixtures[request.url];
+        return typeof fixture === 'function' ? fixture(request) : { status: 200, body: fixture, headers: {} };
+    };
+    return Object.assign(transport, { requests });
+}
+
+// --- Client ---
+
+/**
+ * A typed client for the GeoGuessr endpoints the script uses.
+ * Requests are paced by the rate limiter and retried with backoff. Failed or cancelled
+ * requests resolve with null.
+ */
+export class GeoGuessrClient {
+    /**
+     * How many duels may be fetched in parallel.
+     */
+    readonly maxParallelRequests: number;
+
+    /**
+     * @param options.apiRequestDelay The longest the rate limiter waits between requests on its own (in milliseconds).
+     * Waits the server asks for through `Retry-After` or rate-limit headers can be longer.
+     * @param options.maxParallelRequests How many duels may be fetched in parallel (default: 1).
+     * @param transport The transport that performs the requests. Defaults to `GM_xmlhttpRequest`.
+     * @param limiter The rate limiter to draw from. Defaults to the one shared by all clients.
+     */
+    constructor(
+        options: { apiRequestDelay: number; maxParallelRequests?: number },
+        private readonly transport: Transport = gmTransport,
+        private readonly limiter: RateLimiter = rateLimiter
+    ) {
+        this.maxParallelRequests = Math.max(1, options.maxParallelRequests ?? 1);
+        limiter.setInterval(options.apiRequestDelay);
+        limiter.setMaxConcurrency('duels', this.maxParallelRequests);
+    }
+
+    /**
+     * Fetches a page of the user's private activity feed.
+     * @param paginationToken The token of the page to fetch. Omit it for the newest page.
+     * @param signal Optional signal to cancel the request.
+     */
+    getFeedPage(paginationToken?: string, signal?: AbortSignal): Promise<FeedResponse | null> {
+        const url = paginationToken
+            ? `${API_ENDPOINTS.FEED}?paginationToken=${paginationToken}`
+            : API_ENDPOINTS.FEED;
+        return this.request<FeedResponse>(url, signal);
+    }
+
+    /**
+     * Fetches the full details of a duel.
+     * @param gameId The ID of the duel.
+     * @param signal Optional signal to cancel the request.
+     */
+    getDuel(gameId: string, signal?: AbortSignal): Promise<DuelResponse | null> {
+        return this.request<DuelResponse>(`${API_ENDPOINTS.DUELS}/${gameId}`, signal);
+    }
+
+    /**
+     * Fetches the signed-in user's own profile.
+     * @param signal Optional signal to cancel the request.
+     */
+    async getProfile(signal?: AbortSignal): Promise<UserProfile | null> {
+        const response = await this.request<ProfileResponse>(API_ENDPOINTS.PROFILE, signal);
+        return response?.user ?? null;
+    }
+
+    /**
+     * Fetches the public profile of another user.
+     * @param userId The ID of the user.
+     * @param signal Optional signal to cancel the request.
+     */
+    getUser(userId: string, signal?: AbortSignal): Promise<UserProfile | null> {
+        return this.request<UserProfile>(`${API_ENDPOINTS.USERS}/${userId}`, signal);
+    }
+
+    /**
+     * Makes a request through the rate limiter. Requests cancelled while waiting are skipped without hitting the network.
+     * @param url The URL to fetch.
+     * @param signal Optional signal to cancel the request.
+     */
+    private request<T>(url: string, signal?: AbortSignal): Promise<T | null> {
+        return executeRequest<T>(this.transport, this.limiter, url, signal);
+    }
+}
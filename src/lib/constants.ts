@@ -1,24 +1,66 @@
-import { DatasetStyle, Settings } from '../types';
+import { BackfillState, DatasetStyle, Division, Settings } from '../types';
 
 // Settings constants
 export const SETTINGS_KEY = 'guesslyticsSettings';
 export const RATING_HISTORY_KEY = 'guesslyticsRatingHistory';
 export const BACKFILL_STATE_KEY = 'guesslyticsBackfillState';
+export const DUEL_RECORDS_KEY = 'guesslyticsDuelRecords';
+export const SCHEMA_VERSION_KEY = 'guesslyticsSchemaVersion';
+export const DUEL_CACHE_KEY = 'guesslyticsDuelCache'; // Shared by all accounts, see `loadDuelCache`.
+export const ACCOUNTS_KEY = 'guesslyticsAccounts';
+export const LEGACY_DATA_OWNER_KEY = 'guesslyticsLegacyDataOwner';
+
+// IndexedDB databases holding the rating history, one per account named `guesslytics-<userId>`.
+// The unsuffixed name is the shared database of releases before multi-account support.
+export const HISTORY_DB_NAME = 'guesslytics';
+export const HISTORY_DB_VERSION = 1;
+export const HISTORY_STORE = 'ratings';
+
+// Current version of the duel record store schema
+export const DUEL_RECORDS_VERSION = 2;
+
+// Current version of the duel cache, and its size limits
+export const DUEL_CACHE_VERSION = 1;
+export const DUEL_CACHE_MAX_ENTRIES = 5000;
+export const DUEL_CACHE_MAX_BYTES = 8 * 1024 * 1024;
+
+// GeoGuessr API endpoints
+export const API_ENDPOINTS = {
+    FEED: 'https://www.geoguessr.com/api/v4/feed/private',
+    DUELS: 'https://game-server.geoguessr.com/api/duels',
+    USERS: 'https://www.geoguessr.com/api/v3/users',
+    PROFILE: 'https://www.geoguessr.com/api/v3/profiles',
+};
 
 // Default settings
 export const DEFAULT_SETTINGS: Settings = {
     statsTimeframe: 7,
+    statsMode: 'visible',
     backfillFullHistory: false,
     backfillDays: 30,
     showAreaFill: true,
-    visibleDatasets: { overall: true, moving: true, noMove: true, nmpz: true },
+    visibleDatasets: { overall: true, moving: true, noMove: true, nmpz: true, teamDuels: true },
+    showDivisions: true,
+    showSessions: true,
+    sessionGapMinutes: 30,
+    divisionThresholds: { bronze: 0, silver: 450, gold: 650, master: 850, champion: 1100 },
+    goals: {},
     autoRefreshInterval: 60,
     apiRequestDelay: 250,
+    maxParallelRequests: 3,
     backgroundOpacity: 15,
     initialZoomDays: 7,
     verboseLogging: false,
 };
 
+// Default backfill state, used before the first sync and after clearing data
+export const DEFAULT_BACKFILL_STATE: BackfillState = {
+    lastLimitDays: 0,
+    lastSyncTimestamp: null,
+    ended: false,
+    cursor: null,
+};
+
 // Icons for UI
 export const ICONS = {
     EXPAND: `<i class="fa-solid fa-expand"></i>`,
@@ -27,12 +69,41 @@ export const ICONS = {
     GITHUB: `<i class="fa-brands fa-github"></i>`,
     RESYNC: `<i class="fa-solid fa-sync-alt"></i>`,
     CHART: `<i class="fa-solid fa-chart-line" style="color: white;"></i>`,
+    OPPONENTS: `<i class="fa-solid fa-user-group"></i>`,
+    PAUSE: `<i class="fa-solid fa-pause"></i>`,
+    PLAY: `<i class="fa-solid fa-play"></i>`,
+    STOP: `<i class="fa-solid fa-stop"></i>`,
+    HEATMAP: `<i class="fa-solid fa-table-cells"></i>`,
 };
 
-// Dataset styles for chart
+// Dataset styles for chart. Modes without an entry get a generated style, see `getDatasetStyle`.
 export const DATASET_STYLES: Record<string, DatasetStyle> = {
     overall: { label: 'Overall', color: '#FFFFFF' },
     moving: { label: 'Moving', color: '#4A90E2' },
     noMove: { label: 'No Move', color: '#F5A623' },
-    nmpz: { label: 'NMPZ', color: '#BD10E0' }
+    nmpz: { label: 'NMPZ', color: '#BD10E0' },
+    teamDuels: { label: 'Team Duels', color: '#50E3C2' }
+};
+
+// Competitive divisions, lowest first. Their thresholds are part of the settings, since GeoGuessr changes them.
+export const DIVISIONS: Division[] = [
+    { key: 'bronze', label: 'Bronze', color: '#CD7F32' },
+    { key: 'silver', label: 'Silver', color: '#C0C0C0' },
+    { key: 'gold', label: 'Gold', color: '#FFD700' },
+    { key: 'master', label: 'Master', color: '#E5484D' },
+    { key: 'champion', label: 'Champion', color: '#8E4EC6' }
+];
+
+// Colors for the series of ranked modes that have no entry in DATASET_STYLES
+export const FALLBACK_DATASET_COLORS = ['#7ED321', '#E94B3C', '#F8E71C', '#9B9B9B', '#FF8AD8', '#00BCD4'];
+
+// History keys of ranked modes whose key differs from the camel-cased API name, keyed by the
+// API's `competitiveGameMode`. These keep the keys that existing data is stored under.
+export const MODE_KEYS: Record<string, string> = {
+    StandardDuels: 'moving',
+    NoMoveDuels: 'noMove',
+    NmpzDuels: 'nmpz'
 };
+
+// The `competitiveGameMode` the feed reports for unranked games
+export const UNRANKED_GAME_MODE = 'None';
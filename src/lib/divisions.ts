@@ -0,0 +1,61 @@
+import { DIVISIONS } from './constants';
+
+/**
+ * A competitive division with the rating range it covers.
+ */
+export interface DivisionRange {
+    key: string;
+    label: string;
+    color: string;
+    min: number;
+    // The rating at which the next division starts, or null for the top division.
+    max: number | null;
+}
+
+/**
+ * The division a rating falls into and how far it is from the next one.
+ */
+export interface DivisionStanding {
+    division: DivisionRange;
+    next: DivisionRange | null;
+    // Rating points still needed to reach the next division, or null in the top division.
+    pointsToNext: number | null;
+}
+
+/**
+ * Builds the rating ranges of all divisions from their configured thresholds.
+ * Divisions are ordered by threshold rather than by their order in `DIVISIONS`, so the
+ * ranges stay consistent even if the thresholds are entered out of order.
+ * @param thresholds The minimum rating of each division, keyed by division key.
+ * @returns The division ranges, lowest first.
+ */
+export function getDivisionRanges(thresholds: Record<string, number>): DivisionRange[] {
+    const sorted = DIVISIONS.map((division) => ({ ...division, min: thresholds[division.key] ?? 0 }))
+        .sort((a, b) => a.min - b.min);
+    return sorted.map((division, i) => ({ ...division, max: sorted[i + 1]?.min ?? null }));
+}
+
+/**
+ * Finds the division of a rating and the distance to the next division.
+ * Ratings below the lowest threshold count as the lowest division.
+ * @param rating The rating.
+ * @param ranges The division ranges, lowest first.
+ * @returns The standing, or null if there are no divisions.
+ */
+export function getDivisionStanding(rating: number, ranges: DivisionRange[]): DivisionStanding | null {
+    if (ranges.length === 0) return null;
+    const index = ranges.reduce((found, range, i) => (rating >= range.min ? i : found), 0);
+    const next = ranges[index + 1] ?? null;
+    return { division: ranges[index], next, pointsToNext: next ? next.min - rating : null };
+}
+
+/**
+ * Describes a standing for display, e.g. "Gold · 38 to Master".
+ * @param standing The standing.
+ * @returns The description.
+ */
+export function describeDivisionStanding(standing: DivisionStanding): string {
+    return standing.next
+        ? `${standing.division.label} · ${standing.pointsToNext} to ${standing.next.label}`
+        : standing.division.label;
+}
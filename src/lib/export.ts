@@ -0,0 +1,108 @@
+import { RatingHistory } from '../types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+
+/**
+ * An optional inclusive date range used to limit exported entries.
+ */
+export interface ExportRange {
+    from?: Date;
+    to?: Date;
+}
+
+/**
+ * Returns a copy of the rating history containing only entries inside the given range.
+ * @param data The rating history to filter.
+ * @param range The date range; missing bounds are treated as open.
+ * @returns The filtered rating history.
+ */
+export function filterHistoryByRange(data: RatingHistory, range: ExportRange = {}): RatingHistory {
+    const from = range.from ? range.from.getTime() : -Infinity;
+    const to = range.to ? range.to.getTime() : Infinity;
+    const filtered = {} as RatingHistory;
+
+    for (const key of Object.keys(data)) {
+        filtered[key] = data[key].filter((entry) => {
+            const ts = new Date(entry.timestamp).getTime();
+            return ts >= from && ts <= to;
+        });
+    }
+    return filtered;
+}
+
+/**
+ * Serializes the rating history to a JSON export document.
+ * The document carries the schema version so it can be validated on import.
+ * @param data The rating history to export.
+ * @param range The date range to export.
+ * @returns The JSON string.
+ */
+export function historyToJson(data: RatingHistory, range: ExportRange = {}): string {
+    return JSON.stringify(
+        {
+            app: 'guesslytics',
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            exportedAt: new Date().toISOString(),
+            range: {
+                from: range.from ? range.from.toISOString() : null,
+                to: range.to ? range.to.toISOString() : null
+            },
+            ratingHistory: filterHistoryByRange(data, range)
+        },
+        null,
+        2
+    );
+}
+
+/**
+ * Serializes the rating history to a flat CSV with one row per entry and mode.
+ * The delta column is the change from the previous entry of the same mode, and is left
+ * empty for the first entry since the rating before it is unknown.
+ * @param data The rating history to export.
+ * @param range The date range to export.
+ * @returns The CSV string.
+ */
+export function historyToCsv(data: RatingHistory, range: ExportRange = {}): string {
+    const rows = ['timestamp,mode,rating,delta,gameId'];
+
+    for (const key of Object.keys(data)) {
+        const entries = data[key];
+        const from = range.from ? range.from.getTime() : -Infinity;
+        const to = range.to ? range.to.getTime() : Infinity;
+
+        entries.forEach((entry, i) => {
+            const ts = new Date(entry.timestamp).getTime();
+            if (ts < from || ts > to) return;
+            // Deltas are computed against the full series so the first row in range still has one.
+            const delta = i > 0 ? entry.rating - entries[i - 1].rating : '';
+            rows.push([entry.timestamp, key, entry.rating, delta, entry.gameId].map(escapeCsvValue).join(','));
+        });
+    }
+    return rows.join('\n');
+}
+
+/**
+ * Escapes a single CSV value, quoting it if it contains separators, quotes or newlines.
+ * @param value The value to escape.
+ * @returns The escaped value.
+ */
+function escapeCsvValue(value: string | number): string {
+    const str = String(value);
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Triggers a browser download for the given content.
+ * @param content The file content.
+ * @param filename The name of the downloaded file.
+ * @param mimeType The MIME type of the content.
+ */
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
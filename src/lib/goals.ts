@@ -0,0 +1,90 @@
+import { RatingEntry, RatingHistory } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The progress towards a target rating.
+ */
+export interface GoalProgress {
+    target: number;
+    current: number;
+    // Rating points still needed, 0 once the goal is reached.
+    remaining: number;
+    reached: boolean;
+    // The rating trend in points per day, or null if there are too few games to fit one.
+    trendPerDay: number | null;
+    // The projected time the goal is reached at the current trend, or null if it is reached
+    // already or the trend doesn't point towards it.
+    projectedAt: number | null;
+}
+
+const toTime = (entry: RatingEntry) => new Date(entry.timestamp).getTime();
+
+/**
+ * Fits a least-squares line through the ratings over time.
+ * @param entries The rating entries, sorted by timestamp.
+ * @returns The slope in rating points per day, or null if the entries span no time.
+ */
+export function calculateTrend(entries: RatingEntry[]): number | null {
+    if (entries.length < 2) return null;
+    // Center the times, so the squared offsets stay small enough to be exact.
+    const times = entries.map(toTime);
+    const meanTime = times.reduce((sum, t) => sum + t, 0) / times.length;
+    const meanRating = entries.reduce((sum, e) => sum + e.rating, 0) / entries.length;
+
+    let covariance = 0;
+    let variance = 0;
+    entries.forEach((entry, i) => {
+        const dt = times[i] - meanTime;
+        covariance += dt * (entry.rating - meanRating);
+        variance += dt * dt;
+    });
+    return variance > 0 ? (covariance / variance) * DAY_MS : null;
+}
+
+/**
+ * Calculates the progress towards a target rating and projects when it is reached.
+ * @param entries The rating entries of the mode, sorted by timestamp.
+ * @param target The target rating.
+ * @param trendEntries The entries the trend is fitted to, usually a recent window of `entries`.
+ * @returns The progress, or null if the mode has no games yet.
+ */
+export function getGoalProgress(entries: RatingEntry[], target: number, trendEntries: RatingEntry[]): GoalProgress | null {
+    if (entries.length === 0) return null;
+    const latest = entries[entries.length - 1];
+    const remaining = Math.max(0, target - latest.rating);
+    const trendPerDay = calculateTrend(trendEntries);
+
+    return {
+        target,
+        current: latest.rating,
+        remaining,
+        reached: remaining === 0,
+        trendPerDay,
+        projectedAt: remaining > 0 && trendPerDay != null && trendPerDay > 0
+            ? toTime(latest) + (remaining / trendPerDay) * DAY_MS
+            : null,
+    };
+}
+
+/**
+ * Finds the goals that the latest added entries have reached. A goal counts as newly reached
+ * if the mode's latest game was added, is at or above the target, and the last game before the
+ * added ones was below it. Older games filled in by a backfill never count, and neither does the
+ * very first sync, which has no earlier game to compare with.
+ * @param history The stored history, including the added entries.
+ * @param added The entries added by the last sync batch.
+ * @param goals The target rating per mode key.
+ * @returns The keys of the modes whose goal was just reached.
+ */
+export function getNewlyReachedGoals(history: RatingHistory, added: RatingHistory, goals: Record<string, number>): string[] {
+    return Object.keys(goals).filter((key) => {
+        const series = history[key] ?? [];
+        const addedIds = new Set((added[key] ?? []).map((e) => e.gameId));
+        if (series.length === 0 || !addedIds.has(series[series.length - 1].gameId)) return false;
+
+        let i = series.length - 1;
+        while (i >= 0 && addedIds.has(series[i].gameId)) i--;
+        return i >= 0 && series[i].rating < goals[key] && series[series.length - 1].rating >= goals[key];
+    });
+}
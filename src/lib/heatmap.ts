@@ -0,0 +1,58 @@
+import { RatingEntry } from '../types';
+
+/**
+ * The games played in one hour of one weekday.
+ */
+export interface HeatmapCell {
+    games: number;
+    totalDelta: number;
+    // The average rating change per game, or null if no game was played in this hour.
+    avgDelta: number | null;
+}
+
+/**
+ * Weekday labels in heatmap row order. Weeks start on Monday, as in the stats windows.
+ */
+export const HEATMAP_WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Builds a weekday × hour grid of the rating changes of the given games, in local time.
+ * A game's change is measured against the entry before it, so the first entry only serves
+ * as the baseline, like in the stats windows.
+ * @param entries The rating entries, sorted by timestamp.
+ * @returns Seven rows (Monday first) of 24 cells (midnight first).
+ */
+export function buildHeatmap(entries: RatingEntry[]): HeatmapCell[][] {
+    const grid = HEATMAP_WEEKDAYS.map(() =>
+        Array.from({ length: 24 }, (): HeatmapCell => ({ games: 0, totalDelta: 0, avgDelta: null }))
+    );
+
+    for (let i = 1; i < entries.length; i++) {
+        const date = new Date(entries[i].timestamp);
+        const cell = grid[(date.getDay() + 6) % 7][date.getHours()];
+        cell.games++;
+        cell.totalDelta += entries[i].rating - entries[i - 1].rating;
+        cell.avgDelta = cell.totalDelta / cell.games;
+    }
+    return grid;
+}
+
+/**
+ * Finds the largest absolute average change and the largest game count of a heatmap,
+ * which the cell colors are scaled against.
+ * @param grid The heatmap.
+ * @returns Both maxima, 0 for an empty heatmap.
+ */
+export function getHeatmapScale(grid: HeatmapCell[][]): { maxAbsDelta: number; maxGames: number } {
+    const cells = ([] as HeatmapCell[]).concat(...grid);
+    return {
+        maxAbsDelta: Math.max(0, ...cells.map((cell) => Math.abs(cell.avgDelta ?? 0))),
+        maxGames: Math.max(0, ...cells.map((cell) => cell.games)),
+    };
+}
+
+/**
+ * Formats an hour of the day as two digits, e.g. "07".
+ * @param hour The hour, 0 to 23.
+ */
+export const formatHour = (hour: number): string => `${hour < 10 ? '0' : ''}${hour}`;
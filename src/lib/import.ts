@@ -0,0 +1,184 @@
+import { RatingEntry, RatingHistory } from '../types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { isRatingEntry } from './utils';
+
+/**
+ * The shape of a series key: `overall` or a camel-cased mode key as returned by `getModeKey`.
+ */
+const MODE_KEY_PATTERN = /^[a-z][A-Za-z0-9]*$/;
+
+/**
+ * Checks whether a key from a backup can be stored as a series. Names of object prototype
+ * members like `__proto__` or `constructor` are rejected, since they would not act as plain keys.
+ * @param key The key to check.
+ */
+const isModeKey = (key: string): boolean => MODE_KEY_PATTERN.test(key) && !(key in Object.prototype);
+
+/**
+ * The outcome of an import, reported back to the user.
+ */
+export interface ImportResult {
+    added: number;
+    skipped: number;
+    invalid: number;
+}
+
+/**
+ * Entries read from a backup file, grouped by mode and not yet validated.
+ * `invalid` counts rows that could not be assigned to any mode.
+ */
+export interface ParsedBackup {
+    entries: Record<string, any[]>;
+    invalid: number;
+}
+
+/**
+ * Adds the entries of one series to a parsed backup. Entries of a malformed key are counted as invalid.
+ * @param parsed The backup to add to.
+ * @param key The series key.
+ * @param entries The entries of the series.
+ */
+function addSeries(parsed: ParsedBackup, key: string, entries: any[]): void {
+    if (!isModeKey(key)) {
+        parsed.invalid += entries.length;
+        return;
+    }
+    (parsed.entries[key] ??= []).push(...entries);
+}
+
+/**
+ * Parses the content of a previously exported backup file.
+ * Accepts the JSON export document, a bare `RatingHistory` object, or the flat CSV export.
+ * Export documents must come from Guesslytics and from this or an older schema version.
+ * Series with malformed keys are dropped and counted as invalid; entries themselves are
+ * validated while merging.
+ * @param content The raw file content.
+ * @returns The parsed backup.
+ * @throws If the content is neither a Guesslytics JSON export, a rating history nor a CSV with the
+ * expected header, or if it was exported with a newer schema version.
+ */
+export function parseBackup(content: string): ParsedBackup {
+    const trimmed = content.trim();
+    const parsed: ParsedBackup = { entries: {}, invalid: 0 };
+
+    if (trimmed.startsWith('{')) {
+        const json = JSON.parse(trimmed);
+        let history = json;
+        if ('ratingHistory' in json) {
+            const { app, schemaVersion } = json;
+            if (app !== 'guesslytics' || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+                throw new Error('Unrecognized backup format: expected a Guesslytics JSON or CSV export.');
+            }
+            if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+                throw new Error(`Backup uses schema version ${schemaVersion}, which is newer than this release supports.`);
+            }
+            history = json.ratingHistory;
+        }
+        if (!history || typeof history !== 'object' || !Array.isArray(history.overall)) {
+            throw new Error('Unrecognized backup format: expected a Guesslytics JSON or CSV export.');
+        }
+        for (const key of Object.keys(history)) {
+            if (Array.isArray(history[key])) addSeries(parsed, key, history[key]);
+        }
+        return parsed;
+    }
+
+    const [headerLine, ...lines] = trimmed.split(/\r?\n/);
+    const header = parseCsvLine(headerLine);
+    const column = (name: string) => header.indexOf(name);
+    const [tsCol, modeCol, ratingCol, gameIdCol] = ['timestamp', 'mode', 'rating', 'gameId'].map(column);
+
+    if ([tsCol, modeCol, ratingCol, gameIdCol].some((col) => col === -1)) {
+        throw new Error('Unrecognized backup format: expected a Guesslytics JSON or CSV export.');
+    }
+
+    for (const line of lines) {
+        if (!line.trim()) continue;
+        const values = parseCsvLine(line);
+        const mode = values[modeCol];
+        if (!mode) {
+            parsed.invalid++;
+            continue;
+        }
+        addSeries(parsed, mode, [{
+            timestamp: values[tsCol],
+            rating: Number(values[ratingCol]),
+            gameId: values[gameIdCol]
+        }]);
+    }
+    return parsed;
+}
+
+/**
+ * Merges imported entries into the existing history.
+ * Invalid entries are dropped, entries whose gameId already exists in the same mode are skipped,
+ * and every mode array is re-sorted by time.
+ * @param existing The currently stored rating history.
+ * @param backup The parsed backup to merge.
+ * @returns The merged history and the import counts.
+ */
+export function mergeHistory(
+    existing: RatingHistory,
+    backup: ParsedBackup
+): { merged: RatingHistory; result: ImportResult } {
+    const result: ImportResult = { added: 0, skipped: backup.invalid, invalid: backup.invalid };
+    const merged: RatingHistory = { overall: [] };
+    const keys = new Set([...Object.keys(existing), ...Object.keys(backup.entries)]);
+
+    for (const key of keys) {
+        const entries: RatingEntry[] = [...(existing[key] ?? [])];
+        const gameIds = new Set(entries.map((e) => e.gameId));
+
+        for (const entry of backup.entries[key] ?? []) {
+            if (!isRatingEntry(entry)) {
+                result.invalid++;
+                result.skipped++;
+                continue;
+            }
+            if (gameIds.has(entry.gameId)) {
+                result.skipped++;
+                continue;
+            }
+            entries.push({ timestamp: entry.timestamp, rating: entry.rating, gameId: entry.gameId });
+            gameIds.add(entry.gameId);
+            result.added++;
+        }
+
+        merged[key] = entries.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    }
+    return { merged, result };
+}
+
+/**
+ * Splits a single CSV line into its values, honouring double-quoted fields.
+ * @param line The CSV line.
+ * @returns The unescaped values.
+ */
+function parseCsvLine(line: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (inQuotes) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            values.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    values.push(current);
+    return values;
+}
@@ -0,0 +1,292 @@
+import { Migration, RatingEntry, StorageSnapshot } from '../types';
+import {
+    BACKFILL_STATE_KEY,
+    DUEL_RECORDS_KEY,
+    LEGACY_DATA_OWNER_KEY,
+    RATING_HISTORY_KEY,
+    SCHEMA_VERSION_KEY,
+    SETTINGS_KEY
+} from './constants';
+import { isIndexedDbAvailable, moveLegacyHistoryDb, readHistory, writeHistory } from './storage';
+import { accountKey, createEmptyHistory, handleError, isRatingEntry, logger } from './utils';
+
+// --- Migration Steps ---
+
+/**
+ * The default settings as of schema version 1. Released steps must keep producing the same
+ * output, so they use this frozen copy instead of the current `DEFAULT_SETTINGS`. Settings
+ * added later are filled in by `loadSettings`.
+ */
+const V1_DEFAULT_SETTINGS = Object.freeze({
+    statsTimeframe: 7,
+    backfillFullHistory: false,
+    backfillDays: 30,
+    showAreaFill: true,
+    visibleDatasets: Object.freeze({ overall: true, moving: true, noMove: true, nmpz: true }),
+    autoRefreshInterval: 60,
+    apiRequestDelay: 250,
+    backgroundOpacity: 15,
+    initialZoomDays: 7,
+    verboseLogging: false,
+});
+
+/**
+ * Upgrades unversioned data written by releases before the schema version was introduced.
+ * Ensures all four rating series exist, drops malformed entries, restores time order,
+ * deep-merges settings with the v1 defaults and fills in missing backfill state fields.
+ * @param snapshot The unversioned storage snapshot.
+ * @returns The snapshot in schema version 1.
+ */
+export function migrateToV1(snapshot: StorageSnapshot): StorageSnapshot {
+    const history = snapshot.ratingHistory ?? {};
+    const ratingHistory: Record<string, RatingEntry[]> = {};
+
+    for (const key of ['overall', 'moving', 'noMove', 'nmpz']) {
+        const entries = Array.isArray(history[key]) ? history[key] : [];
+        ratingHistory[key] = entries
+            .filter(isRatingEntry)
+            .sort((a: RatingEntry, b: RatingEntry) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    }
+
+    const settings = snapshot.settings
+        ? {
+              ...V1_DEFAULT_SETTINGS,
+              ...snapshot.settings,
+              visibleDatasets: {
+                  ...V1_DEFAULT_SETTINGS.visibleDatasets,
+                  ...snapshot.settings.visibleDatasets
+              }
+          }
+        : snapshot.settings;
+
+    const backfillState = {
+        lastLimitDays: 0,
+        lastSyncTimestamp: null,
+        ended: false,
+        ...snapshot.backfillState
+    };
+
+    return { ...snapshot, ratingHistory, settings, backfillState };
+}
+
+/**
+ * Replaces the single `opponent` field of stored duel records with an `opponents` list
+ * that also carries each opponent's rating at game time. Ratings of existing records are
+ * unknown and left as null.
+ * @param snapshot The storage snapshot in schema version 1.
+ * @returns The snapshot in schema version 2.
+ */
+export function migrateToV2(snapshot: StorageSnapshot): StorageSnapshot {
+    const store = snapshot.duelRecords;
+    if (!store?.records) return snapshot;
+
+    const records: Record<string, any> = {};
+    for (const [gameId, record] of Object.entries<any>(store.records)) {
+        const { opponent, ...rest } = record;
+        records[gameId] = {
+            ...rest,
+            opponents: rest.opponents ?? (opponent ? [{ playerId: opponent.playerId, nick: opponent.nick, rating: null }] : [])
+        };
+    }
+
+    return { ...snapshot, duelRecords: { version: 2, records } };
+}
+
+/**
+ * The ordered registry of all storage migrations.
+ * Append new steps here when the stored shape changes; never edit a released step.
+ */
+export const MIGRATIONS: Migration[] = [
+    { version: 1, description: 'Normalize unversioned legacy data', migrate: migrateToV1 },
+    { version: 2, description: 'Store all opponents with their rating per duel', migrate: migrateToV2 }
+];
+
+/**
+ * The schema version written by this release.
+ */
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * The schema version of account data that has no version of its own. Accounts were stored
+ * without one until schema version 2, when their data was always written in that version.
+ */
+const UNVERSIONED_ACCOUNT_SCHEMA_VERSION = 2;
+
+// --- Migration Runner ---
+
+/**
+ * Applies all migrations newer than `fromVersion` to a snapshot, in order.
+ * This is a pure function, so the whole chain can be tested without GM storage.
+ * @param snapshot The storage snapshot to upgrade.
+ * @param fromVersion The schema version the snapshot was written with.
+ * @param migrations The migration registry to apply.
+ * @returns The upgraded snapshot.
+ */
+export function applyMigrations(
+    snapshot: StorageSnapshot,
+    fromVersion: number,
+    migrations: Migration[] = MIGRATIONS
+): StorageSnapshot {
+    return migrations
+        .filter((m) => m.version > fromVersion)
+        .sort((a, b) => a.version - b.version)
+        .reduce((current, m) => m.migrate(current), snapshot);
+}
+
+/**
+ * Brings the shared stored data up to the current schema version: the settings, and data
+ * from before multi-account support that was not assigned to an account yet.
+ * Reads every storage key, runs the pending migrations in memory and only writes back
+ * once all of them succeeded, so a failing step never leaves storage half-migrated.
+ * Account data keeps its own version and is upgraded by `runAccountMigrations`.
+ * @returns A promise that resolves with the schema version after migrating.
+ */
+export async function runMigrations(): Promise<number> {
+    const storedVersion = ((await GM_getValue(SCHEMA_VERSION_KEY, 0)) as number) || 0;
+
+    if (storedVersion >= CURRENT_SCHEMA_VERSION) {
+        logger.log('Storage schema is up-to-date', { version: storedVersion });
+        return storedVersion;
+    }
+
+    logger.log(`Migrating storage schema from v${storedVersion} to v${CURRENT_SCHEMA_VERSION}`);
+
+    const snapshot: StorageSnapshot = {
+        ratingHistory: await GM_getValue(RATING_HISTORY_KEY),
+        settings: await GM_getValue(SETTINGS_KEY),
+        backfillState: await GM_getValue(BACKFILL_STATE_KEY),
+        duelRecords: await GM_getValue(DUEL_RECORDS_KEY)
+    };
+
+    let migrated: StorageSnapshot;
+    try {
+        migrated = applyMigrations(snapshot, storedVersion);
+    } catch (error) {
+        handleError(error, 'Storage migration failed, keeping existing data', { silent: true });
+        return storedVersion;
+    }
+
+    if (migrated.ratingHistory != null) await GM_setValue(RATING_HISTORY_KEY, migrated.ratingHistory);
+    if (migrated.settings != null) await GM_setValue(SETTINGS_KEY, migrated.settings);
+    if (migrated.backfillState != null) await GM_setValue(BACKFILL_STATE_KEY, migrated.backfillState);
+    if (migrated.duelRecords != null) await GM_setValue(DUEL_RECORDS_KEY, migrated.duelRecords);
+    await GM_setValue(SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION);
+
+    logger.log('Storage migration completed', { version: CURRENT_SCHEMA_VERSION });
+    return CURRENT_SCHEMA_VERSION;
+}
+
+/**
+ * Brings an account's data up to the current schema version, like `runMigrations` does for the
+ * shared data. Runs whenever an account is selected, since the data of an account that is not
+ * logged in may stay untouched across several releases. The history is migrated where it is
+ * stored, in IndexedDB if available; settings are shared and left to `runMigrations`.
+ * @param userId The user ID of the account.
+ * @returns A promise that resolves with the account's schema version after migrating.
+ */
+export async function runAccountMigrations(userId: string): Promise<number> {
+    const versionKey = accountKey(SCHEMA_VERSION_KEY, userId);
+    const storedVersion = ((await GM_getValue(versionKey, UNVERSIONED_ACCOUNT_SCHEMA_VERSION)) as number) || 0;
+
+    if (storedVersion >= CURRENT_SCHEMA_VERSION) return storedVersion;
+
+    logger.log(`Migrating account schema from v${storedVersion} to v${CURRENT_SCHEMA_VERSION}`, { userId });
+
+    const historyKey = accountKey(RATING_HISTORY_KEY, userId);
+    const backfillStateKey = accountKey(BACKFILL_STATE_KEY, userId);
+    const duelRecordsKey = accountKey(DUEL_RECORDS_KEY, userId);
+    const snapshot: StorageSnapshot = {
+        ratingHistory: isIndexedDbAvailable() ? await readHistory(userId) : await GM_getValue(historyKey),
+        settings: undefined,
+        backfillState: await GM_getValue(backfillStateKey),
+        duelRecords: await GM_getValue(duelRecordsKey)
+    };
+
+    let migrated: StorageSnapshot;
+    try {
+        migrated = applyMigrations(snapshot, storedVersion);
+    } catch (error) {
+        handleError(error, 'Account storage migration failed, keeping existing data', { silent: true });
+        return storedVersion;
+    }
+
+    // Only rewrite the history if a step changed it, since it is by far the largest value.
+    if (migrated.ratingHistory != null && migrated.ratingHistory !== snapshot.ratingHistory) {
+        if (isIndexedDbAvailable()) await writeHistory(userId, migrated.ratingHistory);
+        else await GM_setValue(historyKey, migrated.ratingHistory);
+    }
+    if (migrated.backfillState != null) await GM_setValue(backfillStateKey, migrated.backfillState);
+    if (migrated.duelRecords != null) await GM_setValue(duelRecordsKey, migrated.duelRecords);
+    await GM_setValue(versionKey, CURRENT_SCHEMA_VERSION);
+
+    logger.log('Account storage migration completed', { userId, version: CURRENT_SCHEMA_VERSION });
+    return CURRENT_SCHEMA_VERSION;
+}
+
+/**
+ * Assigns the data stored before multi-account support to the given account, once.
+ * Earlier releases kept a single rating history, backfill state and duel record store for whoever
+ * was logged in, so the first account seen after the update is taken as their owner. The data
+ * keeps the shared schema version, so steps that failed on the shared keys are retried by
+ * `runAccountMigrations`.
+ * @param userId The user ID of the logged-in account.
+ * @returns A promise that resolves with true if the data was assigned now, false if it was assigned before.
+ */
+export async function assignLegacyDataToAccount(userId: string): Promise<boolean> {
+    const owner = await GM_getValue(LEGACY_DATA_OWNER_KEY);
+    if (owner) return false;
+
+    try {
+        for (const key of [RATING_HISTORY_KEY, BACKFILL_STATE_KEY, DUEL_RECORDS_KEY]) {
+            const value = await GM_getValue(key);
+            if (value == null) continue;
+            await GM_setValue(accountKey(key, userId), value);
+            await GM_deleteValue(key);
+        }
+        await GM_setValue(accountKey(SCHEMA_VERSION_KEY, userId), await GM_getValue(SCHEMA_VERSION_KEY, 0));
+        if (isIndexedDbAvailable()) await moveLegacyHistoryDb(userId);
+    } catch (error) {
+        handleError(error, 'Assigning stored data to the account failed', { silent: true });
+        return false;
+    }
+
+    await GM_setValue(LEGACY_DATA_OWNER_KEY, userId);
+    logger.log('Assigned existing data to account', { userId });
+    return true;
+}
+
+/**
+ * Moves an account's rating history kept in GM storage into IndexedDB, once.
+ * Runs before `runAccountMigrations`, which migrates the history in IndexedDB. Entries already in
+ * IndexedDB win over legacy ones for the same game. The GM key is only emptied after the
+ * history was written, so a failed move is simply retried on the next load.
+ * @param userId The user ID of the account.
+ * @returns A promise that resolves with the number of moved entries.
+ */
+export async function moveHistoryToIndexedDb(userId: string): Promise<number> {
+    if (!isIndexedDbAvailable()) return 0;
+
+    const historyKey = accountKey(RATING_HISTORY_KEY, userId);
+    const legacy = ((await GM_getValue(historyKey)) ?? {}) as Record<string, RatingEntry[]>;
+    const keys = Object.keys(legacy).filter((key) => Array.isArray(legacy[key]));
+    const count = keys.reduce((sum, key) => sum + legacy[key].length, 0);
+    if (count === 0) return 0;
+
+    try {
+        const history = await readHistory(userId);
+        for (const key of keys) {
+            const existingIds = new Set((history[key] ?? []).map((e) => e.gameId));
+            history[key] = (history[key] ?? [])
+                .concat(legacy[key].filter((e) => isRatingEntry(e) && !existingIds.has(e.gameId)))
+                .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        }
+        await writeHistory(userId, history);
+    } catch (error) {
+        handleError(error, 'Moving rating history to IndexedDB failed, keeping it in GM storage', { silent: true });
+        return 0;
+    }
+
+    await GM_setValue(historyKey, createEmptyHistory());
+    logger.log(`Moved ${count} rating entries to IndexedDB`);
+    return count;
+}
@@ -0,0 +1,46 @@
+import { DuelRecord, HeadToHead } from '../types';
+
+/**
+ * Aggregates stored duel records into a head-to-head summary per opponent.
+ * The net rating is the change in the user's overall rating across all games against that
+ * opponent; games without both ratings don't contribute to it.
+ * @param records The stored duel records.
+ * @returns One entry per opponent, most frequently met first.
+ */
+export function buildHeadToHead(records: DuelRecord[]): HeadToHead[] {
+    const byOpponent = new Map<string, HeadToHead>();
+    const sorted = [...records].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    for (const record of sorted) {
+        for (const opponent of record.opponents) {
+            const h2h = byOpponent.get(opponent.playerId) ?? {
+                playerId: opponent.playerId,
+                games: 0,
+                wins: 0,
+                losses: 0,
+                draws: 0,
+                netRating: 0,
+                lastMeeting: record.timestamp,
+                lastGameId: record.gameId
+            };
+
+            h2h.games++;
+            if (record.result === 'win') h2h.wins++;
+            if (record.result === 'loss') h2h.losses++;
+            if (record.result === 'draw') h2h.draws++;
+            if (record.ratingBefore != null && record.ratingAfter != null) {
+                h2h.netRating += record.ratingAfter - record.ratingBefore;
+            }
+            // Records are processed oldest first, so the latest values win.
+            h2h.lastMeeting = record.timestamp;
+            h2h.lastGameId = record.gameId;
+            if (opponent.nick) h2h.nick = opponent.nick;
+
+            byOpponent.set(opponent.playerId, h2h);
+        }
+    }
+
+    return [...byOpponent.values()].sort(
+        (a, b) => b.games - a.games || new Date(b.lastMeeting).getTime() - new Date(a.lastMeeting).getTime()
+    );
+}
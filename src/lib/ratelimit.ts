@@ -0,0 +1,248 @@
+import { RateLimitBucket, RateLimitBucketState, RateLimitState } from '../types';
+import { logger, sleep } from './utils';
+
+/**
+ * Requests a bucket can make in a burst before it has to wait for a refill.
+ */
+const BUCKET_CAPACITY = 5;
+
+/**
+ * Default upper limit for each bucket's parallel requests. The feed is paginated, so it never runs in parallel.
+ */
+const MAX_CONCURRENCY: Record<RateLimitBucket, number> = { feed: 1, duels: 4, other: 2 };
+
+/**
+ * Successful requests in a row after which a bucket may run one more request in parallel.
+ */
+const CONCURRENCY_STEP = 10;
+
+/**
+ * Backoff after a 429 without a usable `Retry-After` header. It doubles on every further 429,
+ * up to the maximum, and resets after the next successful request.
+ */
+const INITIAL_BACKOFF = 2000;
+const MAX_BACKOFF = 15000;
+
+/**
+ * How often a request waiting for a free parallel slot checks again.
+ */
+const SLOT_POLL_INTERVAL = 50;
+
+interface Bucket extends RateLimitBucketState {
+    maxConcurrency: number;
+    lastRefill: number;
+    successStreak: number;
+    backoff: number;
+}
+
+/**
+ * Parses a `Retry-After` header, which is either a number of seconds or an HTTP date.
+ * @param value The header value.
+ * @param now The current time.
+ * @returns The time to wait in milliseconds, or null if the header is missing or invalid.
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | null {
+    if (!value) return null;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Parses the `X-RateLimit-Remaining` and `X-RateLimit-Reset` headers.
+ * The reset is accepted both as seconds from now and as a Unix timestamp in seconds.
+ * @param headers The response headers, with lower-cased names.
+ * @param now The current time.
+ * @returns The remaining requests and the reset time, each null if not sent.
+ */
+export function parseRateLimitHeaders(
+    headers: Record<string, string>,
+    now: number = Date.now()
+): { remaining: number | null; resetAt: number | null } {
+    const remaining = Number(headers['x-ratelimit-remaining']);
+    const reset = Number(headers['x-ratelimit-reset']);
+    const hasReset = headers['x-ratelimit-reset'] != null && !isNaN(reset);
+    return {
+        remaining: headers['x-ratelimit-remaining'] != null && !isNaN(remaining) ? remaining : null,
+        resetAt: hasReset ? (reset > 1e9 ? reset * 1000 : now + reset * 1000) : null
+    };
+}
+
+/**
+ * A token-bucket rate limiter with a separate budget per endpoint group.
+ * Each bucket refills one token per request interval, so requests only wait when a burst has
+ * used up the budget. The interval (the user's API request delay) is therefore a ceiling on the
+ * wait between requests, not a fixed sleep. Server feedback takes precedence: rate-limit headers
+ * shrink the budget, and a 429 blocks the bucket for the `Retry-After` time and halves its
+ * concurrency, which then grows back one step at a time while requests succeed.
+ */
+export class RateLimiter {
+    private buckets: Record<RateLimitBucket, Bucket>;
+    private intervalMs = 0;
+    private listeners: ((state: RateLimitState) => void)[] = [];
+
+    /**
+     * @param now The clock to use. Tests can pass a fake one.
+     */
+    constructor(private readonly now: () => number = Date.now) {
+        const createBucket = (bucket: RateLimitBucket): Bucket => ({
+            tokens: BUCKET_CAPACITY,
+            capacity: BUCKET_CAPACITY,
+            concurrency: 1,
+            maxConcurrency: MAX_CONCURRENCY[bucket],
+            inFlight: 0,
+            blockedUntil: null,
+            lastRefill: this.now(),
+            successStreak: 0,
+            backoff: INITIAL_BACKOFF
+        });
+        this.buckets = { feed: createBucket('feed'), duels: createBucket('duels'), other: createBucket('other') };
+    }
+
+    /**
+     * Sets the interval at which each bucket refills one token.
+     * @param intervalMs The interval in milliseconds. 0 disables the budget.
+     */
+    setInterval(intervalMs: number) {
+        this.intervalMs = Math.max(0, intervalMs);
+    }
+
+    /**
+     * Sets how many requests a bucket may run in parallel at most. Its current concurrency
+     * still starts low and only grows up to this limit while requests succeed.
+     * @param bucket The bucket to configure.
+     * @param maxConcurrency The upper limit, at least 1.
+     */
+    setMaxConcurrency(bucket: RateLimitBucket, maxConcurrency: number) {
+        const b = this.buckets[bucket];
+        b.maxConcurrency = Math.max(1, maxConcurrency);
+        b.concurrency = Math.min(b.concurrency, b.maxConcurrency);
+    }
+
+    /**
+     * Waits until the bucket has a token, a free parallel slot and is not blocked, then takes the token.
+     * Every successful call must be followed by a call to `release`.
+     * @param bucket The bucket to take the token from.
+     * @param signal Optional signal to stop waiting.
+     * @returns A promise that resolves to true once the request may start, or false if it was cancelled.
+     */
+    async acquire(bucket: RateLimitBucket, signal?: AbortSignal): Promise<boolean> {
+        const b = this.buckets[bucket];
+        while (!signal?.aborted) {
+            this.refill(b);
+            const now = this.now();
+
+            let wait: number;
+            if (b.blockedUntil != null && b.blockedUntil > now) {
+                wait = b.blockedUntil - now;
+            } else if (b.inFlight >= b.concurrency) {
+                wait = SLOT_POLL_INTERVAL;
+            } else if (b.tokens < 1) {
+                wait = Math.ceil((1 - b.tokens) * this.intervalMs);
+            } else {
+                b.tokens -= 1;
+                b.inFlight++;
+                b.blockedUntil = null;
+                this.emit();
+                return true;
+            }
+
+            await sleep(wait, signal);
+        }
+        return false;
+    }
+
+    /**
+     * Returns the slot taken by `acquire` and adapts the bucket to the server's response.
+     * @param bucket The bucket the request was made from.
+     * @param response The response status and headers, or null if the request failed without a response.
+     */
+    release(bucket: RateLimitBucket, response: { status: number; headers: Record<string, string> } | null) {
+        const b = this.buckets[bucket];
+        b.inFlight = Math.max(0, b.inFlight - 1);
+
+        if (response) {
+            const now = this.now();
+            const { remaining, resetAt } = parseRateLimitHeaders(response.headers, now);
+            if (remaining != null) {
+                b.tokens = Math.min(b.tokens, remaining);
+                if (remaining === 0 && resetAt != null) b.blockedUntil = resetAt;
+            }
+
+            if (response.status === 429) {
+                const wait = parseRetryAfter(response.headers['retry-after'], now) ?? b.backoff;
+                b.backoff = Math.min(MAX_BACKOFF, b.backoff * 2);
+                b.blockedUntil = Math.max(b.blockedUntil ?? 0, now + wait);
+                b.tokens = 0;
+                b.concurrency = Math.max(1, Math.floor(b.concurrency / 2));
+                b.successStreak = 0;
+                logger.log(`Rate limited on ${bucket}. Waiting ${wait}ms.`, { concurrency: b.concurrency });
+            } else if (response.status >= 200 && response.status < 300) {
+                b.backoff = INITIAL_BACKOFF;
+                b.successStreak++;
+                if (b.successStreak >= CONCURRENCY_STEP && b.concurrency < b.maxConcurrency) {
+                    b.concurrency++;
+                    b.successStreak = 0;
+                }
+            }
+        }
+
+        this.emit();
+    }
+
+    /**
+     * Gets a snapshot of all buckets.
+     */
+    getState(): RateLimitState {
+        const snapshot = (b: Bucket): RateLimitBucketState => ({
+            tokens: b.tokens,
+            capacity: b.capacity,
+            concurrency: b.concurrency,
+            inFlight: b.inFlight,
+            blockedUntil: b.blockedUntil
+        });
+        return {
+            feed: snapshot(this.buckets.feed),
+            duels: snapshot(this.buckets.duels),
+            other: snapshot(this.buckets.other)
+        };
+    }
+
+    /**
+     * Registers a listener that receives the state whenever it changes.
+     * @param listener The listener.
+     * @returns A function that removes the listener again.
+     */
+    subscribe(listener: (state: RateLimitState) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((l) => l !== listener);
+        };
+    }
+
+    /**
+     * Adds the tokens earned since the last refill, up to the bucket's capacity.
+     */
+    private refill(b: Bucket) {
+        const now = this.now();
+        b.tokens = this.intervalMs === 0
+            ? b.capacity
+            : Math.min(b.capacity, b.tokens + (now - b.lastRefill) / this.intervalMs);
+        b.lastRefill = now;
+    }
+
+    /**
+     * Notifies all listeners of the current state.
+     */
+    private emit() {
+        if (this.listeners.length === 0) return;
+        const state = this.getState();
+        this.listeners.forEach((listener) => listener(state));
+    }
+}
+
+/**
+ * The limiter shared by all API clients, since they all draw from the same server-side budget.
+ */
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,92 @@
+import { RatingEntry } from '../types';
+
+/**
+ * A single game of a session with the rating change it caused.
+ */
+export interface SessionGame {
+    gameId: string;
+    timestamp: string;
+    delta: number;
+}
+
+/**
+ * A summary of one play session.
+ */
+export interface SessionSummary {
+    start: string;
+    end: string;
+    games: number;
+    wins: number;
+    losses: number;
+    // The rating before the first game, or the first game's rating if nothing was played before.
+    startRating: number;
+    endRating: number;
+    netChange: number;
+    // The games with the largest gain and loss, or null if no game of the session has a known change.
+    bestGame: SessionGame | null;
+    worstGame: SessionGame | null;
+}
+
+const toTime = (entry: RatingEntry) => new Date(entry.timestamp).getTime();
+
+/**
+ * Splits a time-ordered list of entries into sessions wherever the gap between two games
+ * is longer than the given idle time.
+ * @param entries The rating entries, sorted by timestamp.
+ * @param maxGapMs The longest break in milliseconds that still continues a session.
+ * @returns The sessions, oldest first, each sorted by timestamp.
+ */
+export function groupSessions(entries: RatingEntry[], maxGapMs: number): RatingEntry[][] {
+    const sessions: RatingEntry[][] = [];
+    entries.forEach((entry, i) => {
+        if (i === 0 || toTime(entry) - toTime(entries[i - 1]) > maxGapMs) {
+            sessions.push([entry]);
+        } else {
+            sessions[sessions.length - 1].push(entry);
+        }
+    });
+    return sessions;
+}
+
+/**
+ * Summarizes a session. A game's rating change is measured against the game before it, so the
+ * first game of a session is compared with the last game of the previous session.
+ * @param session The entries of the session, sorted by timestamp.
+ * @param previous The last entry before the session, if any. Without it, the first game's change is unknown.
+ * @returns The summary.
+ */
+export function summarizeSession(session: RatingEntry[], previous?: RatingEntry): SessionSummary {
+    const games: SessionGame[] = [];
+    session.forEach((entry, i) => {
+        const before = i > 0 ? session[i - 1] : previous;
+        if (before) games.push({ gameId: entry.gameId, timestamp: entry.timestamp, delta: entry.rating - before.rating });
+    });
+
+    const startRating = previous?.rating ?? session[0].rating;
+    const endRating = session[session.length - 1].rating;
+    const byDelta = [...games].sort((a, b) => a.delta - b.delta);
+
+    return {
+        start: session[0].timestamp,
+        end: session[session.length - 1].timestamp,
+        games: session.length,
+        wins: games.filter((g) => g.delta > 0).length,
+        losses: games.filter((g) => g.delta < 0).length,
+        startRating,
+        endRating,
+        netChange: endRating - startRating,
+        bestGame: byDelta.length > 0 && byDelta[byDelta.length - 1].delta > 0 ? byDelta[byDelta.length - 1] : null,
+        worstGame: byDelta.length > 0 && byDelta[0].delta < 0 ? byDelta[0] : null,
+    };
+}
+
+/**
+ * Groups entries into sessions and summarizes each of them.
+ * @param entries The rating entries, sorted by timestamp.
+ * @param maxGapMs The longest break in milliseconds that still continues a session.
+ * @returns The session summaries, oldest first.
+ */
+export function buildSessionSummaries(entries: RatingEntry[], maxGapMs: number): SessionSummary[] {
+    const sessions = groupSessions(entries, maxGapMs);
+    return sessions.map((session, i) => summarizeSession(session, sessions[i - 1]?.[sessions[i - 1].length - 1]));
+}
@@ -0,0 +1,94 @@
+import { RatingEntry, StatsMode } from '../types';
+
+/**
+ * Summary statistics for a sequence of rating entries.
+ */
+export interface RatingStats {
+    games: number;
+    lastChange: number;
+    avgNet: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    avgGain: number;
+    avgLoss: number;
+    peakRating: number;
+}
+
+/**
+ * Calculates summary statistics from a time-ordered list of rating entries.
+ * Each game is the change between two consecutive entries, so at least two entries are needed.
+ * @param entries The rating entries, sorted by timestamp.
+ * @returns The statistics, or null if there is not enough data.
+ */
+export function calculateStats(entries: RatingEntry[]): RatingStats | null {
+    if (entries.length < 2) return null;
+
+    let wins = 0, losses = 0, gains = 0, lossesTotal = 0, peakRating = entries[0].rating;
+
+    for (let i = 1; i < entries.length; i++) {
+        const change = entries[i].rating - entries[i - 1].rating;
+        if (change > 0) { wins++; gains += change; }
+        if (change < 0) { losses++; lossesTotal += change; }
+        if (entries[i].rating > peakRating) peakRating = entries[i].rating;
+    }
+
+    const games = entries.length - 1;
+    const netChange = entries[entries.length - 1].rating - entries[0].rating;
+
+    return {
+        games,
+        lastChange: entries[entries.length - 1].rating - entries[entries.length - 2].rating,
+        avgNet: netChange / games,
+        wins,
+        losses,
+        winRate: wins + losses > 0 ? Math.round((wins / (wins + losses)) * 100) : 0,
+        avgGain: wins > 0 ? gains / wins : 0,
+        avgLoss: losses > 0 ? lossesTotal / losses : 0,
+        peakRating
+    };
+}
+
+/**
+ * Selects the entries the stats should be computed from.
+ * In `visible` mode this is the chart's current pan/zoom window. The rolling modes ignore the
+ * chart and include the last entry before the window as a baseline, so the first game inside
+ * the window still counts as a rating change.
+ * @param entries The rating entries, sorted by timestamp.
+ * @param mode The stats mode.
+ * @param timeframe The window size for the `days` and `games` modes.
+ * @param visibleRange The chart's visible time range, used in `visible` mode.
+ * @param now The reference time for the rolling windows.
+ * @returns The entries to compute stats from.
+ */
+export function selectStatsWindow(
+    entries: RatingEntry[],
+    mode: StatsMode,
+    timeframe: number,
+    visibleRange: { min: number; max: number },
+    now: Date = new Date()
+): RatingEntry[] {
+    if (mode === 'visible') {
+        return entries.filter((d) => {
+            const ts = new Date(d.timestamp).getTime();
+            return ts >= visibleRange.min && ts <= visibleRange.max;
+        });
+    }
+
+    if (mode === 'games') {
+        return entries.slice(-(Math.max(1, timeframe) + 1));
+    }
+
+    const start = new Date(now);
+    if (mode === 'days') {
+        start.setDate(start.getDate() - timeframe);
+    } else {
+        start.setHours(0, 0, 0, 0);
+        // Weeks start on Monday.
+        if (mode === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    }
+
+    const firstIndex = entries.findIndex((d) => new Date(d.timestamp).getTime() >= start.getTime());
+    if (firstIndex === -1) return [];
+    return entries.slice(Math.max(0, firstIndex - 1));
+}
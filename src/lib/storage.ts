@@ -0,0 +1,204 @@
+import { RatingEntry, RatingHistory } from '../types';
+import { HISTORY_DB_NAME, HISTORY_DB_VERSION, HISTORY_STORE } from './constants';
+
+/**
+ * A rating entry as stored in IndexedDB: one row per mode and game.
+ * `time` is the parsed timestamp, so the indexes sort chronologically regardless of the timestamp format.
+ */
+interface StoredRating extends RatingEntry {
+    mode: string;
+    time: number;
+}
+
+/**
+ * Open database connections, keyed by database name. Each account has its own database.
+ */
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * The last history read from or written to each account's database, keyed by user ID.
+ * Reads are served from here, so panning the chart or rendering stats doesn't hit the database every time.
+ */
+const historyCache = new Map<string, RatingHistory>();
+
+/**
+ * Checks whether IndexedDB can be used in this environment.
+ */
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Resolves once a transaction has committed.
+ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+/**
+ * Gets the name of an account's history database.
+ * @param userId The user ID of the account.
+ */
+const historyDbName = (userId: string): string => `${HISTORY_DB_NAME}-${userId}`;
+
+/**
+ * Opens a history database, creating the store and its indexes on first use.
+ * The connection is reused for all later calls.
+ * @param name The name of the database.
+ */
+function openDb(name: string): Promise<IDBDatabase> {
+    const existing = connections.get(name);
+    if (existing) return existing;
+
+    const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(name, HISTORY_DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(HISTORY_STORE, { keyPath: ['mode', 'gameId'] });
+            store.createIndex('timestamp', 'time');
+            store.createIndex('mode_timestamp', ['mode', 'time']);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).catch((error) => {
+        connections.delete(name);
+        throw error;
+    });
+    connections.set(name, dbPromise);
+    return dbPromise;
+}
+
+/**
+ * Reads all entries of a history database, sorted by time within each mode.
+ * Only modes with at least one entry (and `overall`) are present in the result.
+ * @param db The database.
+ */
+async function readAll(db: IDBDatabase): Promise<RatingHistory> {
+    const index = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index('mode_timestamp');
+    const rows = (await promisify(index.getAll())) as StoredRating[];
+    const history: RatingHistory = { overall: [] };
+    for (const { mode, timestamp, rating, gameId } of rows) {
+        (history[mode] ??= []).push({ timestamp, rating, gameId });
+    }
+    return history;
+}
+
+/**
+ * Copies a history, so callers can modify the result without touching the cache.
+ */
+function copyHistory(data: RatingHistory): RatingHistory {
+    const copy: RatingHistory = { overall: [] };
+    Object.keys(data).forEach((mode) => (copy[mode] = [...data[mode]]));
+    return copy;
+}
+
+/**
+ * Converts the entries of a history into database rows.
+ */
+function toRows(data: RatingHistory): StoredRating[] {
+    return Object.keys(data).flatMap((mode) =>
+        data[mode].map((entry) => ({ ...entry, mode, time: new Date(entry.timestamp).getTime() }))
+    );
+}
+
+/**
+ * Reads an account's full rating history, sorted by time within each mode.
+ * @param userId The user ID of the account.
+ * @returns A promise that resolves with the history.
+ */
+export async function readHistory(userId: string): Promise<RatingHistory> {
+    let history = historyCache.get(userId);
+    if (!history) {
+        history = await readAll(await openDb(historyDbName(userId)));
+        historyCache.set(userId, history);
+    }
+    return copyHistory(history);
+}
+
+/**
+ * Replaces an account's full rating history.
+ * @param userId The user ID of the account.
+ * @param data The new history, sorted by time within each mode.
+ */
+export async function writeHistory(userId: string, data: RatingHistory): Promise<void> {
+    const db = await openDb(historyDbName(userId));
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    store.clear();
+    toRows(data).forEach((row) => store.put(row));
+    await transactionDone(tx);
+    historyCache.set(userId, copyHistory(data));
+}
+
+/**
+ * Adds entries to an account's rating history without rewriting the rest of it.
+ * An entry for a game that is already stored in the same mode replaces it.
+ * @param userId The user ID of the account.
+ * @param added The entries to add.
+ */
+export async function putHistoryEntries(userId: string, added: RatingHistory): Promise<void> {
+    const db = await openDb(historyDbName(userId));
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    toRows(added).forEach((row) => store.put(row));
+    await transactionDone(tx);
+
+    const cached = historyCache.get(userId);
+    if (cached) {
+        for (const mode of Object.keys(added)) {
+            const addedIds = new Set(added[mode].map((e) => e.gameId));
+            cached[mode] = (cached[mode] ?? [])
+                .filter((e) => !addedIds.has(e.gameId))
+                .concat(added[mode])
+                .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        }
+    }
+}
+
+/**
+ * Moves the history database written before histories were stored per account into an account's
+ * database. Entries already stored for the account win over legacy ones for the same game.
+ * The legacy database is only deleted after the history was written.
+ * @param userId The user ID of the account that receives the history.
+ * @returns A promise that resolves with the number of entries in the legacy database.
+ */
+export async function moveLegacyHistoryDb(userId: string): Promise<number> {
+    const legacy = await readAll(await openDb(HISTORY_DB_NAME));
+    const count = Object.values(legacy).reduce((sum, entries) => sum + entries.length, 0);
+
+    if (count > 0) {
+        const history = await readHistory(userId);
+        for (const mode of Object.keys(legacy)) {
+            const existingIds = new Set((history[mode] ?? []).map((e) => e.gameId));
+            history[mode] = (history[mode] ?? [])
+                .concat(legacy[mode].filter((e) => !existingIds.has(e.gameId)))
+                .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        }
+        await writeHistory(userId, history);
+    }
+
+    (await connections.get(HISTORY_DB_NAME))?.close();
+    connections.delete(HISTORY_DB_NAME);
+    await promisify(indexedDB.deleteDatabase(HISTORY_DB_NAME));
+    return count;
+}
+
+/**
+ * Closes all database connections and drops the cached histories, e.g. when the databases are replaced.
+ */
+export function closeHistoryDb(): void {
+    connections.forEach((db) => db.then((d) => d.close()).catch(() => {}));
+    connections.clear();
+    historyCache.clear();
+}
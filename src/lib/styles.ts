@@ -17,7 +17,7 @@ export const css = `
 }
 
 #guesslyticsContainer.expanded { 
-    height: 400px; 
+    height: 460px; 
 }
 
 .guesslytics-header { 
@@ -53,7 +53,18 @@ export const css = `
         gap: 8px;
     }
     
-    #guesslyticsTimer {
+    #guesslyticsGoalNotice { 
+    display: none; 
+    font-size: 12px; 
+    color: #4CAF50; 
+    cursor: pointer; 
+}
+
+#guesslyticsGoalNotice.visible { 
+    display: inline; 
+}
+
+#guesslyticsTimer {
         font-size: 10px;
         white-space: nowrap;
     }
@@ -76,6 +87,40 @@ export const css = `
     
 }
 
+#guesslyticsLegend { 
+    display: flex; 
+    flex-wrap: wrap; 
+    gap: 5px; 
+    margin-top: 6px; 
+}
+
+#guesslyticsLegend:empty { 
+    display: none; 
+}
+
+.legend-chip { 
+    display: inline-flex; 
+    align-items: center; 
+    gap: 4px; 
+    background: #333; 
+    border: 1px solid #555; 
+    border-radius: 10px; 
+    color: #ddd; 
+    font-size: 11px; 
+    padding: 1px 8px; 
+    cursor: pointer; 
+}
+
+.legend-chip .color-swatch { 
+    width: 8px; 
+    height: 8px; 
+    margin-right: 0; 
+}
+
+.legend-chip.inactive { 
+    opacity: 0.4; 
+}
+
 .guesslytics-title-wrapper { 
     display: flex; 
     align-items: center; 
@@ -124,15 +169,59 @@ export const css = `
 
 #guesslyticsStats { 
     display: none; 
-    flex-wrap: wrap; 
-    justify-content: space-around; 
+    flex-direction: column; 
     padding: 5px 10px; 
-    gap: 10px; 
+    gap: 6px; 
     border-bottom: 1px solid #444; 
     margin-bottom: 5px; 
     flex-shrink: 0; 
 }
 
+.stats-toolbar { 
+    display: flex; 
+    justify-content: space-between; 
+    align-items: center; 
+    gap: 10px; 
+}
+
+.stats-tabs { 
+    display: flex; 
+    justify-content: center; 
+    gap: 5px; 
+}
+
+#statsModeSelect, .settings-row select { 
+    background: #333; 
+    border: 1px solid #555; 
+    color: #fff; 
+    border-radius: 4px; 
+    font-size: 11px; 
+    padding: 2px 4px; 
+}
+
+.stats-tab { 
+    background: #333; 
+    border: 1px solid #555; 
+    border-bottom: 2px solid transparent; 
+    border-radius: 4px; 
+    color: #aaa; 
+    font-size: 11px; 
+    padding: 2px 8px; 
+    cursor: pointer; 
+}
+
+.stats-tab.active { 
+    color: #fff; 
+    border-bottom-color: var(--mode-color); 
+}
+
+.stats-values { 
+    display: flex; 
+    flex-wrap: wrap; 
+    justify-content: space-around; 
+    gap: 10px; 
+}
+
 .stat-item { 
     text-align: center; 
 } 
@@ -156,11 +245,43 @@ export const css = `
     color: #F44336; 
 }
 
+.stat-item .value .positive { 
+    color: #4CAF50; 
+}
+
+.stat-item .value .negative { 
+    color: #F44336; 
+}
+
+.stats-values.advanced .value, .stats-values.goal .value { 
+    font-size: 13px; 
+}
+
+.session-list { 
+    max-height: 130px; 
+    overflow-y: auto; 
+}
+
+.session-list .h2h-table { 
+    font-size: 11px; 
+}
+
+.session-duration { 
+    color: #777; 
+}
+
 #guesslyticsCanvas { 
     flex-grow: 1; 
     min-height: 0; 
 }
 
+#guesslyticsHeatmap { 
+    display: none; 
+    flex: 1 1 0; 
+    min-height: 0; 
+    width: 100%; 
+}
+
 .chart-buttons { 
     display: flex; 
     gap: 5px; 
@@ -186,12 +307,32 @@ export const css = `
     cursor: not-allowed; 
 }
 
+.chart-buttons button.sync-control { 
+    display: none; 
+}
+
+.chart-buttons button.sync-control.visible { 
+    display: inline-block; 
+}
+
+.chart-buttons button.expanded-only { 
+    display: none; 
+}
+
+#guesslyticsContainer.expanded .chart-buttons button.expanded-only { 
+    display: inline-block; 
+}
+
+.chart-buttons button.active { 
+    background: #555; 
+}
+
 /* Settings Panel Styles */
-#guesslyticsSettingsPanel { 
+#guesslyticsSettingsPanel, #guesslyticsOpponentsPanel { 
     display: none; 
 }
 
-#guesslyticsSettingsOverlay { 
+#guesslyticsSettingsOverlay, #guesslyticsOpponentsOverlay { 
     position: fixed; 
     top: 0; 
     left: 0; 
@@ -201,7 +342,7 @@ export const css = `
     z-index: 10000; 
 }
 
-#guesslyticsSettingsModal { 
+#guesslyticsSettingsModal, #guesslyticsOpponentsModal { 
     position: fixed; 
     top: 50%; 
     left: 50%; 
@@ -213,9 +354,11 @@ export const css = `
     border-radius: 8px; 
     z-index: 10001; 
     border: 1px solid #444; 
+    max-height: 90vh;
+    overflow-y: auto;
 }
 
-#guesslyticsSettingsModal h2 { 
+#guesslyticsSettingsModal h2, #guesslyticsOpponentsModal h2 { 
     margin-top: 0; 
     text-align: center; 
 }
@@ -257,6 +400,11 @@ export const css = `
     padding: 4px; 
 }
 
+.settings-row input[type="date"] { 
+    width: 130px; 
+    color-scheme: dark; 
+}
+
 .settings-row input[type="checkbox"] { 
     width: 16px; 
     height: 16px; 
@@ -307,6 +455,20 @@ export const css = `
     background: #717171; 
 }
 
+#exportJsonBtn, #exportCsvBtn, #importBtn { 
+    background: #00838F; 
+}
+
+.settings-note { 
+    font-size: 12px; 
+    color: #00BCD4; 
+    margin-top: 6px; 
+}
+
+.settings-note:empty { 
+    display: none; 
+}
+
 .settings-stats { 
     font-size: 13px; 
     color: #ccc; 
@@ -315,6 +477,11 @@ export const css = `
     margin-top: 10px; 
 }
 
+#guesslyticsSyncProgress.hidden, 
+#guesslyticsRateLimit.hidden { 
+    display: none; 
+}
+
 .settings-footer { 
     text-align: center; 
     font-size: 11px; 
@@ -334,6 +501,51 @@ export const css = `
 
 
 
+/* Head-to-Head Panel Styles */
+#guesslyticsOpponentsModal { 
+    width: 520px; 
+}
+
+.h2h-table-wrapper { 
+    max-height: 60vh; 
+    overflow-y: auto; 
+}
+
+.h2h-table { 
+    width: 100%; 
+    border-collapse: collapse; 
+    font-size: 13px; 
+}
+
+.h2h-table th { 
+    position: sticky; 
+    top: 0; 
+    background: #1c1c1c; 
+    color: #aaa; 
+    font-weight: normal; 
+    text-align: left; 
+    border-bottom: 1px solid #444; 
+    padding: 4px 6px; 
+}
+
+.h2h-table td { 
+    padding: 4px 6px; 
+    border-bottom: 1px solid #2a2a2a; 
+}
+
+.h2h-table a { 
+    color: #fff; 
+    text-decoration: none; 
+}
+
+.h2h-table .positive { 
+    color: #4CAF50; 
+}
+
+.h2h-table .negative { 
+    color: #F44336; 
+}
+
 /* Spinner Animation */
 .gg-spinner { 
     animation: gg-spinner 1s linear infinite; 
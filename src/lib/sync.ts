@@ -0,0 +1,117 @@
+import { SyncProgress } from '../types';
+
+/**
+ * Controls a running sync, letting the UI pause, resume or cancel it.
+ * Cancellation is exposed as a standard `AbortSignal` so it can be passed down to the request queue.
+ * Pausing is cooperative: the sync checks `waitIfPaused` between games and pages.
+ */
+export class SyncController {
+    private abortController = new AbortController();
+    private paused = false;
+    private resumeListeners: (() => void)[] = [];
+
+    /**
+     * The signal that is aborted when the sync is cancelled.
+     */
+    get signal(): AbortSignal {
+        return this.abortController.signal;
+    }
+
+    /**
+     * Whether the sync has been cancelled.
+     */
+    get isCancelled(): boolean {
+        return this.abortController.signal.aborted;
+    }
+
+    /**
+     * Whether the sync is currently paused.
+     */
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    /**
+     * Pauses the sync at the next game or page boundary.
+     */
+    pause() {
+        this.paused = true;
+    }
+
+    /**
+     * Resumes a paused sync.
+     */
+    resume() {
+        this.paused = false;
+        this.flushResumeListeners();
+    }
+
+    /**
+     * Cancels the sync. A paused sync is released so it can wind down.
+     */
+    cancel() {
+        this.abortController.abort();
+        this.paused = false;
+        this.flushResumeListeners();
+    }
+
+    /**
+     * Resolves immediately unless the sync is paused, in which case it waits until it is
+     * resumed or cancelled.
+     */
+    waitIfPaused(): Promise<void> {
+        if (!this.paused) return Promise.resolve();
+        return new Promise((resolve) => this.resumeListeners.push(resolve));
+    }
+
+    private flushResumeListeners() {
+        const listeners = this.resumeListeners;
+        this.resumeListeners = [];
+        listeners.forEach((resolve) => resolve());
+    }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The reference point the sync rate is measured from.
+ * `timestamp` is the newest feed time covered at that point.
+ */
+export interface RateBaseline {
+    timestamp: number;
+    requests: number;
+    at: number;
+}
+
+/**
+ * Fills in the cutoff distance and the estimated time remaining of a progress snapshot.
+ * The estimate extrapolates the observed request rate: how many requests each day of history
+ * took so far, and how long each request took on average. Without a cutoff date (full history)
+ * the amount of remaining history is unknown, so no estimate is given.
+ * @param progress The progress so far.
+ * @param baseline The point the rate is measured from.
+ * @param now The current time.
+ * @returns A copy of the progress with `daysToCutoff` and `etaMs` updated.
+ */
+export function estimateProgress(progress: SyncProgress, baseline: RateBaseline, now: number = Date.now()): SyncProgress {
+    const oldest = progress.oldestTimestamp ? new Date(progress.oldestTimestamp).getTime() : null;
+    const cutoff = progress.cutoffTimestamp ? new Date(progress.cutoffTimestamp).getTime() : null;
+
+    if (oldest == null || cutoff == null) {
+        return { ...progress, daysToCutoff: null, etaMs: null };
+    }
+
+    const daysToCutoff = Math.max(0, (oldest - cutoff) / DAY_MS);
+    const coveredDays = (baseline.timestamp - oldest) / DAY_MS;
+    const requests = progress.requests - baseline.requests;
+    const elapsed = now - baseline.at;
+
+    let etaMs: number | null = null;
+    if (coveredDays > 0 && requests > 0) {
+        const msPerRequest = elapsed / requests;
+        const requestsPerDay = requests / coveredDays;
+        etaMs = daysToCutoff * requestsPerDay * msPerRequest;
+    }
+
+    return { ...progress, daysToCutoff, etaMs };
+}
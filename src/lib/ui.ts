@@ -1,14 +1,57 @@
-import { ChartDataset, ChartOptions, RatingHistory, Settings } from '../types';
-import { BACKFILL_STATE_KEY, DATASET_STYLES, ICONS } from './constants';
-import { formatDate, getStoredData, getUserId, logger } from './utils';
+import {
+    ChartDataPoint,
+    ChartDataset,
+    ChartOptions,
+    DuelRecord,
+    RateLimitBucket,
+    RateLimitState,
+    RatingEntry,
+    RatingHistory,
+    Settings,
+    StatsMode,
+    SyncProgress
+} from '../types';
+import { DIVISIONS, ICONS, SETTINGS_KEY } from './constants';
+import {
+    formatDate,
+    formatDuration,
+    getActiveAccount,
+    getBackfillState,
+    getDatasetStyle,
+    getKnownAccounts,
+    getModeKeys,
+    getStoredData,
+    getStoredDuelRecords,
+    getUserId,
+    logger
+} from './utils';
+import { AdvancedAnalytics, calculateAdvancedAnalytics } from './analytics';
+import { describeDivisionStanding, getDivisionRanges, getDivisionStanding } from './divisions';
+import { getGoalProgress, getNewlyReachedGoals } from './goals';
+import { HEATMAP_WEEKDAYS, buildHeatmap, formatHour, getHeatmapScale } from './heatmap';
+import { SessionGame, buildSessionSummaries, groupSessions } from './sessions';
+import { buildHeadToHead } from './opponents';
+import { SyncController } from './sync';
+import { calculateStats, selectStatsWindow } from './stats';
+import { getDuelCacheStats, loadDuelCache } from './cache';
 import { applyStyles } from './styles';
 
 // --- Module State ---
 let ratingChart: any = null; // The Chart.js instance.
 let isGraphExpanded = false;
+let isHeatmapVisible = false; // Whether the heatmap replaces the line chart in the expanded view.
 let refreshIntervalId: number | null = null;
 let countdownIntervalId: number | null = null;
 let showingCompletionMessage = false;
+let currentSettings: Settings | null = null; // The settings used for the last render.
+let selectedStatsMode = 'overall'; // The dataset shown in the stats strip.
+let chartModeKeys: string[] = []; // The series keys of the chart's datasets, in dataset order.
+let chartSessions: RatingEntry[][] = []; // Play sessions of the overall series, shaded on the chart.
+let lowestRating: RatingEntry | null = null; // The low point of the stats range, marked on the chart while expanded.
+let duelRecordsById: Record<string, DuelRecord> = {}; // Per-game details used by the chart tooltip.
+let chartBounds: { min: number | null; max: number | null } = { min: null, max: null }; // Pan/zoom limits.
+let syncProgress: SyncProgress | null = null; // The latest progress of the running sync.
+let rateLimitState: RateLimitState | null = null; // The latest state of the API rate limiter.
 
 // --- UI Update Functions ---
 
@@ -59,6 +102,167 @@ export function setSyncState(
     }
 }
 
+/**
+ * Shows the pause and cancel buttons for a running sync and wires them to its controller.
+ * Passing null hides the buttons once the sync has finished.
+ * @param controller The controller of the running sync, or null if no sync is running.
+ */
+export function bindSyncControls(controller: SyncController | null): void {
+    const pauseBtn = document.getElementById('guesslyticsPauseBtn');
+    const cancelBtn = document.getElementById('guesslyticsCancelBtn');
+    if (!pauseBtn || !cancelBtn) return;
+
+    pauseBtn.classList.toggle('visible', !!controller);
+    cancelBtn.classList.toggle('visible', !!controller);
+    pauseBtn.innerHTML = ICONS.PAUSE;
+    pauseBtn.title = 'Pause Sync';
+    if (!controller) return;
+
+    pauseBtn.onclick = () => {
+        const timerEl = document.getElementById('guesslyticsTimer');
+        if (controller.isPaused) {
+            logger.log('Resuming sync.');
+            controller.resume();
+            pauseBtn.innerHTML = ICONS.PAUSE;
+            pauseBtn.title = 'Pause Sync';
+            if (timerEl) timerEl.innerHTML = `<span class="full-text">${describeSyncStatus(syncProgress)} <div class="gg-spinner"></div></span><span class="minimal-text"><div class="gg-spinner"></div></span>`;
+        } else {
+            logger.log('Pausing sync.');
+            controller.pause();
+            pauseBtn.innerHTML = ICONS.PLAY;
+            pauseBtn.title = 'Resume Sync';
+            if (timerEl) timerEl.innerHTML = `<span class="full-text">Sync paused</span><span class="minimal-text">❚❚</span>`;
+        }
+    };
+
+    cancelBtn.onclick = () => {
+        logger.log('Cancelling sync.');
+        controller.cancel();
+        pauseBtn.classList.remove('visible');
+        cancelBtn.classList.remove('visible');
+    };
+}
+
+/**
+ * Shows the progress of the running sync in the header and, if it is open, in the settings modal.
+ * Passing null clears the progress once the sync has finished.
+ * @param progress The latest progress, or null if no sync is running.
+ * @param paused Whether the sync is paused. The header keeps its paused message in that case.
+ */
+export function renderSyncProgress(progress: SyncProgress | null, paused: boolean = false): void {
+    syncProgress = progress;
+
+    const timerEl = document.getElementById('guesslyticsTimer');
+    if (progress && timerEl && !paused) {
+        timerEl.innerHTML = `<span class="full-text">${describeSyncStatus(progress)} <div class="gg-spinner"></div></span><span class="minimal-text"><div class="gg-spinner"></div></span>`;
+    }
+
+    const detailsEl = document.getElementById('guesslyticsSyncProgress');
+    if (detailsEl) {
+        detailsEl.innerHTML = describeSyncProgress(progress);
+        detailsEl.classList.toggle('hidden', !progress);
+    }
+}
+
+/**
+ * Shows the state of the API rate limiter: a notice in the header while a budget is blocked,
+ * and every budget in the settings modal if it is open.
+ * @param state The latest rate limiter state.
+ */
+export function renderRateLimitState(state: RateLimitState): void {
+    rateLimitState = state;
+
+    const statusEl = document.getElementById('guesslyticsStatus');
+    if (statusEl) {
+        const blockedUntil = Math.max(0, ...Object.values(state).map((b) => b.blockedUntil ?? 0));
+        statusEl.innerText = blockedUntil > Date.now()
+            ? `Rate limited, resuming at ${new Date(blockedUntil).toLocaleTimeString()}`
+            : '';
+    }
+
+    const detailsEl = document.getElementById('guesslyticsRateLimit');
+    if (detailsEl) {
+        detailsEl.innerHTML = describeRateLimitState(state);
+        detailsEl.classList.remove('hidden');
+    }
+}
+
+/**
+ * Builds the rate limiter summary shown in the settings modal.
+ * @param state The latest rate limiter state, or null before the first request.
+ * @returns The HTML of the summary, or an empty string.
+ */
+function describeRateLimitState(state: RateLimitState | null): string {
+    if (!state) return '';
+    const labels: Record<RateLimitBucket, string> = { feed: 'Feed', duels: 'Duels', other: 'Profiles' };
+    const buckets = (Object.keys(labels) as RateLimitBucket[]).map((key) => {
+        const b = state[key];
+        const usage = `${labels[key]} ${Math.floor(b.tokens)}/${b.capacity}`;
+        return b.blockedUntil != null && b.blockedUntil > Date.now()
+            ? `${usage} (waiting until ${new Date(b.blockedUntil).toLocaleTimeString()})`
+            : `${usage} (${b.inFlight}/${b.concurrency} parallel)`;
+    });
+    return `<b>API Budget:</b> ${buckets.join(' | ')}`;
+}
+
+/**
+ * Formats the estimated time remaining of a sync.
+ * @param etaMs The estimate in milliseconds.
+ * @returns The formatted estimate, e.g. "~3m".
+ */
+function formatEta(etaMs: number): string {
+    return etaMs < 60000 ? '<1m' : `~${formatDuration(etaMs)}`;
+}
+
+/**
+ * Builds the short status text shown in the header while syncing.
+ * @param progress The latest progress, or null before the first page was processed.
+ * @returns The status text, e.g. "Syncing (3/2/2025) · 12 pages · 40 new · ~3m left".
+ */
+function describeSyncStatus(progress: SyncProgress | null): string {
+    if (!progress) return 'Syncing...';
+    const parts = [
+        progress.oldestTimestamp ? `Syncing (${new Date(progress.oldestTimestamp).toLocaleDateString()})` : 'Syncing',
+        `${progress.pagesFetched} ${progress.pagesFetched === 1 ? 'page' : 'pages'}`,
+        `${progress.duelsAdded} new`
+    ];
+    if (progress.etaMs != null) parts.push(`${formatEta(progress.etaMs)} left`);
+    return parts.join(' · ');
+}
+
+/**
+ * Builds the detailed progress block shown in the settings modal while syncing.
+ * @param progress The latest progress, or null if no sync is running.
+ * @returns The HTML of the block, or an empty string.
+ */
+function describeSyncProgress(progress: SyncProgress | null): string {
+    if (!progress) return '';
+    const cutoff = progress.daysToCutoff != null
+        ? `${Math.ceil(progress.daysToCutoff)} days to go (until ${formatDate(progress.cutoffTimestamp ?? undefined)})`
+        : 'Full history';
+    const eta = progress.etaMs != null ? formatEta(progress.etaMs) : 'Unknown';
+    return `<b>Sync In Progress</b> (running for ${formatDuration(Date.now() - progress.startedAt)})<br>
+        <b>Pages Fetched:</b> ${progress.pagesFetched} | <b>Requests:</b> ${progress.requests}<br>
+        <b>Duels Found:</b> ${progress.duelsFound} (${progress.duelsAdded} new, ${progress.duelsExisting} already stored, ${progress.cacheHits} from cache)<br>
+        <b>Failed Duel Fetches:</b> ${progress.duelFetchFailures}<br>
+        <b>Reached:</b> ${formatDate(progress.oldestTimestamp ?? undefined)} | <b>Cutoff:</b> ${cutoff}<br>
+        <b>Time Remaining:</b> ${eta}`;
+}
+
+/**
+ * Announces reached goals in the header until the notice is clicked.
+ * Passing no modes hides the notice.
+ * @param modeKeys The keys of the modes whose goal was reached.
+ */
+function showGoalNotice(modeKeys: string[]): void {
+    const noticeEl = document.getElementById('guesslyticsGoalNotice');
+    if (!noticeEl) return;
+    noticeEl.textContent = modeKeys.length > 0
+        ? `🎯 Goal reached: ${modeKeys.map((key) => `${getDatasetStyle(key).label} ${currentSettings?.goals[key]}`).join(', ')}`
+        : '';
+    noticeEl.classList.toggle('visible', modeKeys.length > 0);
+}
+
 /**
  * Sets up the main UI elements for the script.
  * Injects the graph container and settings panel into the page.
@@ -85,18 +289,24 @@ export function setupUI(
                 <div class="guesslytics-title-wrapper">
                     <h3><span class="full-title">RATING HISTORY</span><span class="short-title">HISTORY</span></h3>
                     <span id="guesslyticsStatus"></span>
+                    <span id="guesslyticsGoalNotice" title="Dismiss"></span>
                 </div>
                 <div class="guesslytics-buttons-section">
                     <span id="guesslyticsTimer"></span>
                     <div class="chart-buttons">
+                        <button id="guesslyticsPauseBtn" class="sync-control" title="Pause Sync">${ICONS.PAUSE}</button>
+                        <button id="guesslyticsCancelBtn" class="sync-control" title="Cancel Sync">${ICONS.STOP}</button>
                         <button id="guesslyticsResyncBtn" title="Manual Sync">${ICONS.RESYNC}</button>
+                        <button id="guesslyticsOpponentsBtn" title="Head-to-Head">${ICONS.OPPONENTS}</button>
+                        <button id="guesslyticsHeatmapBtn" class="expanded-only" title="Weekday/Hour Heatmap">${ICONS.HEATMAP}</button>
                         <button id="guesslyticsToggleBtn" title="Toggle Graph Size">${ICONS.EXPAND}</button>
                         <button id="guesslyticsSettingsBtn" title="Settings">${ICONS.SETTINGS}</button>
                     </div>
                 </div>
             </div>
+            <div id="guesslyticsLegend"></div>
         </div>
-        <div id="graphWrapper"><div id="guesslyticsStats"></div><canvas id="guesslyticsCanvas"></canvas></div>`;
+        <div id="graphWrapper"><div id="guesslyticsStats"></div><canvas id="guesslyticsCanvas"></canvas><canvas id="guesslyticsHeatmap"></canvas></div>`;
 
     targetElement.innerHTML = '';
     targetElement.appendChild(container);
@@ -108,20 +318,43 @@ export function setupUI(
         document.body.appendChild(settingsPanel);
     }
 
+    if (!document.getElementById('guesslyticsOpponentsPanel')) {
+        const opponentsPanel = document.createElement('div');
+        opponentsPanel.id = 'guesslyticsOpponentsPanel';
+        document.body.appendChild(opponentsPanel);
+    }
+
     // --- Attach Event Listeners ---
     document.getElementById('guesslyticsToggleBtn')!.onclick = () => {
         isGraphExpanded = !isGraphExpanded;
         container.classList.toggle('expanded', isGraphExpanded);
         document.getElementById('guesslyticsToggleBtn')!.innerHTML = isGraphExpanded ? ICONS.COLLAPSE : ICONS.EXPAND;
         document.getElementById('guesslyticsStats')!.style.display = isGraphExpanded ? 'flex' : 'none';
+        // The heatmap button is only shown while expanded, so collapsing returns to the line chart.
+        if (!isGraphExpanded) {
+            setHeatmapVisible(false);
+            setLowestRating(null);
+        }
         if (isGraphExpanded) calculateAndRenderStats();
     };
 
+    document.getElementById('guesslyticsHeatmapBtn')!.onclick = () => {
+        setHeatmapVisible(!isHeatmapVisible);
+        calculateAndRenderStats();
+    };
+
     document.getElementById('guesslyticsSettingsBtn')!.onclick = () => {
         document.getElementById('guesslyticsSettingsPanel')!.style.display = 'block';
         renderSettingsPanel(settings);
     };
 
+    document.getElementById('guesslyticsOpponentsBtn')!.onclick = () => {
+        document.getElementById('guesslyticsOpponentsPanel')!.style.display = 'block';
+        renderOpponentsPanel();
+    };
+
+    document.getElementById('guesslyticsGoalNotice')!.onclick = () => showGoalNotice([]);
+
     document.getElementById('guesslyticsResyncBtn')!.onclick = async () => {
         await resyncCallback();
     };
@@ -132,6 +365,7 @@ export function setupUI(
 
 /**
  * Calculates and renders statistics based on the visible data in the chart.
+ * Stats are computed per visible dataset, with tabs to switch between them.
  * This is shown when the graph is expanded.
  */
 export async function calculateAndRenderStats(): Promise<void> {
@@ -144,51 +378,269 @@ export async function calculateAndRenderStats(): Promise<void> {
     const visibleMin = ratingChart.scales.x.min;
     const visibleMax = ratingChart.scales.x.max;
 
-    const visibleData = data.overall.filter((d) => {
-        const ts = new Date(d.timestamp).getTime();
-        return ts >= visibleMin && ts <= visibleMax;
+    // Only offer tabs for datasets that are currently shown on the chart.
+    const visibleModes = getModeKeys(data).filter((key) => currentSettings?.visibleDatasets[key] ?? true);
+    if (visibleModes.length === 0) {
+        setLowestRating(null);
+        if (isHeatmapVisible) renderHeatmap([]);
+        statsEl.innerHTML = '<div class="stat-item"><div class="label">No datasets visible</div></div>';
+        return;
+    }
+    if (!visibleModes.includes(selectedStatsMode)) selectedStatsMode = visibleModes[0];
+
+    const statsMode = currentSettings?.statsMode ?? 'visible';
+    const timeframe = currentSettings?.statsTimeframe ?? 7;
+    const tabsEl = `<div class="stats-toolbar"><div class="stats-tabs">${visibleModes.map((key) =>
+        `<button class="stats-tab ${key === selectedStatsMode ? 'active' : ''}" data-mode="${key}"
+        style="--mode-color:${getDatasetStyle(key).color};">${getDatasetStyle(key).label}</button>`).join('')}</div>
+        <select id="statsModeSelect" title="Stats Range">${renderStatsModeOptions(statsMode, timeframe)}</select></div>`;
+
+    const windowData = selectStatsWindow(data[selectedStatsMode] ?? [], statsMode, timeframe, {
+        min: visibleMin,
+        max: visibleMax,
     });
+    if (isHeatmapVisible) renderHeatmap(windowData);
 
-    if (visibleData.length < 2) {
-        statsEl.innerHTML = '<div class="stat-item"><div class="label">Not enough data for stats</div></div>';
-        return;
+    const stats = calculateStats(windowData);
+    const analytics = calculateAdvancedAnalytics(windowData);
+    setLowestRating(analytics?.lowest ?? null);
+    if (!stats) {
+        statsEl.innerHTML = `${tabsEl}<div class="stats-values"><div class="stat-item"><div class="label">Not enough data for stats</div></div></div>`;
+    } else {
+        const signed = (value: number, digits = 0) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+        const lastChangeEl = `<div class="value ${stats.lastChange >= 0 ? 'positive' : 'negative'}">${signed(stats.lastChange)}</div>`;
+        const avgNetEl = `<div class="value ${stats.avgNet >= 0 ? 'positive' : 'negative'}">${signed(stats.avgNet, 2)}</div>`;
+
+        let winRateClass = '';
+        if (stats.winRate > 50) winRateClass = 'positive';
+        if (stats.winRate < 50) winRateClass = 'negative';
+        const winRateEl = `<div class="value ${winRateClass}">${stats.winRate}%</div>`;
+
+        statsEl.innerHTML = `${tabsEl}<div class="stats-values">
+            <div class="stat-item">${lastChangeEl}<div class="label">Last Change</div></div>
+            <div class="stat-item">${avgNetEl}<div class="label">Avg. Net/Game</div></div>
+            <div class="stat-item">${winRateEl}<div class="label">Win Rate</div></div>
+            <div class="stat-item"><div class="value positive">+${stats.avgGain.toFixed(2)}</div><div class="label">Avg Gain</div></div>
+            <div class="stat-item"><div class="value negative">${stats.avgLoss.toFixed(2)}</div><div class="label">Avg Loss</div></div>
+            <div class="stat-item"><div class="value">${stats.peakRating}</div><div class="label">Peak Rating</div></div></div>
+            ${renderAdvancedAnalytics(analytics)}`;
     }
+    statsEl.insertAdjacentHTML('beforeend', renderGoalProgress(data[selectedStatsMode] ?? [], statsMode, timeframe));
+    statsEl.insertAdjacentHTML('beforeend', renderSessionList(data[selectedStatsMode] ?? []));
+
+    statsEl.querySelectorAll<HTMLButtonElement>('.stats-tab').forEach((tab) => {
+        tab.onclick = () => {
+            selectedStatsMode = tab.dataset.mode!;
+            calculateAndRenderStats();
+        };
+    });
+
+    const modeSelect = document.getElementById('statsModeSelect') as HTMLSelectElement;
+    modeSelect.onchange = async () => {
+        if (!currentSettings) return;
+        currentSettings.statsMode = modeSelect.value as StatsMode;
+        logger.log(`Stats mode changed: ${currentSettings.statsMode}`);
+        await GM_setValue(SETTINGS_KEY, currentSettings);
+        calculateAndRenderStats();
+    };
+}
 
-    const lastGame = visibleData[visibleData.length - 1];
-    const secondLastGame = visibleData[visibleData.length - 2];
-    const lastChange = lastGame.rating - secondLastGame.rating;
-    const lastChangeEl = `<div class="value ${lastChange >= 0 ? 'positive' : 'negative'}">${lastChange >= 0 ? '+' : ''}${lastChange}</div>`;
+/**
+ * Sets the low point marked on the chart and redraws the chart if it changed.
+ * @param entry The lowest entry of the stats range, or null to remove the marker.
+ */
+function setLowestRating(entry: RatingEntry | null): void {
+    if (entry?.gameId === lowestRating?.gameId && entry?.rating === lowestRating?.rating) return;
+    lowestRating = entry;
+    ratingChart?.draw();
+}
 
-    let wins = 0, losses = 0, gains = 0, lossesTotal = 0, peakRating = visibleData[0].rating;
+/**
+ * Renders the advanced analytics row (streaks, drawdown, volatility and low point) for the stats strip.
+ * @param analytics The analytics of the stats range, or null if there is not enough data.
+ * @returns The analytics HTML, or an empty string if there is not enough data.
+ */
+function renderAdvancedAnalytics(analytics: AdvancedAnalytics | null): string {
+    if (!analytics) return '';
+
+    const { currentStreak, maxDrawdown } = analytics;
+    const streakClass = currentStreak.type === 'win' ? 'positive' : currentStreak.type === 'loss' ? 'negative' : '';
+    const streakText = currentStreak.type ? `${currentStreak.type === 'win' ? 'W' : 'L'}${currentStreak.length}` : '–';
+    const recoveryText = !maxDrawdown
+        ? '–'
+        : maxDrawdown.recoveryMs != null
+            ? formatDuration(maxDrawdown.recoveryMs)
+            : 'Not yet';
+
+    return `<div class="stats-values advanced">
+        <div class="stat-item"><div class="value ${streakClass}">${streakText}</div><div class="label">Streak</div></div>
+        <div class="stat-item"><div class="value"><span class="positive">W${analytics.longestWinStreak}</span> / <span class="negative">L${analytics.longestLossStreak}</span></div><div class="label">Longest Streaks</div></div>
+        <div class="stat-item"><div class="value negative">${maxDrawdown ? `-${maxDrawdown.amount}` : '0'}</div><div class="label">Max Drawdown</div></div>
+        <div class="stat-item"><div class="value">${recoveryText}</div><div class="label">Recovery</div></div>
+        <div class="stat-item"><div class="value">±${analytics.volatility.toFixed(1)}</div><div class="label">Volatility</div></div>
+        <div class="stat-item" title="${formatDate(analytics.lowest.timestamp)}"><div class="value">${analytics.lowest.rating}</div><div class="label">Lowest Rating</div></div></div>`;
+}
 
-    for (let i = 1; i < visibleData.length; i++) {
-        const change = visibleData[i].rating - visibleData[i - 1].rating;
-        if (change > 0) { wins++; gains += change; }
-        if (change < 0) { losses++; lossesTotal += change; }
-        if (visibleData[i].rating > peakRating) peakRating = visibleData[i].rating;
-    }
+/**
+ * Renders the progress towards the selected dataset's goal for the stats strip.
+ * The trend is fitted to the rolling window: the last `timeframe` games in the `games` stats mode,
+ * otherwise the last `timeframe` days.
+ * @param entries The entries of the selected dataset, sorted by timestamp.
+ * @param statsMode The current stats mode.
+ * @param timeframe The size of the rolling window.
+ * @returns The goal HTML, or an empty string if the dataset has no goal or no games.
+ */
+function renderGoalProgress(entries: RatingEntry[], statsMode: StatsMode, timeframe: number): string {
+    const target = currentSettings?.goals[selectedStatsMode];
+    if (!target) return '';
+    const trendEntries = selectStatsWindow(entries, statsMode === 'games' ? 'games' : 'days', timeframe, { min: 0, max: 0 });
+    const progress = getGoalProgress(entries, target, trendEntries);
+    if (!progress) return '';
+
+    const { trendPerDay, projectedAt } = progress;
+    const trendClass = trendPerDay == null ? '' : trendPerDay >= 0 ? 'positive' : 'negative';
+    const trendText = trendPerDay == null ? '–' : `${trendPerDay >= 0 ? '+' : ''}${trendPerDay.toFixed(1)}/day`;
+    const projectedText = progress.reached ? '–' : projectedAt != null ? new Date(projectedAt).toLocaleDateString() : 'Not on track';
+
+    return `<div class="stats-values goal">
+        <div class="stat-item"><div class="value">${progress.target}</div><div class="label">Goal</div></div>
+        <div class="stat-item"><div class="value ${progress.reached ? 'positive' : ''}">${progress.reached ? 'Reached' : progress.remaining}</div><div class="label">Points to Goal</div></div>
+        <div class="stat-item"><div class="value ${trendClass}">${trendText}</div><div class="label">Trend</div></div>
+        <div class="stat-item"><div class="value">${projectedText}</div><div class="label">Projected</div></div></div>`;
+}
+
+/**
+ * Renders the list of the most recent play sessions for the expanded view.
+ * @param entries The entries of the selected dataset, sorted by timestamp.
+ * @returns The session list HTML, or an empty string if there are no games.
+ */
+function renderSessionList(entries: RatingEntry[]): string {
+    const gapMs = (currentSettings?.sessionGapMinutes ?? 30) * 60 * 1000;
+    const sessions = buildSessionSummaries(entries, gapMs).slice(-10).reverse();
+    if (sessions.length === 0) return '';
+
+    const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+    const valueClass = (value: number) => (value > 0 ? 'positive' : value < 0 ? 'negative' : '');
+    const describeGame = (game: SessionGame | null) => game
+        ? `<a class="${valueClass(game.delta)}" href="${duelPageUrl(game.gameId)}" target="_blank">${signed(game.delta)}</a>`
+        : '–';
+
+    const rows = sessions.map((session) => `<tr>
+            <td>${formatDate(session.start)} <span class="session-duration">${formatDuration(
+                new Date(session.end).getTime() - new Date(session.start).getTime())}</span></td>
+            <td>${session.games}</td>
+            <td>${session.wins}–${session.losses}</td>
+            <td class="${valueClass(session.netChange)}">${signed(session.netChange)}</td>
+            <td>${session.startRating} → ${session.endRating}</td>
+            <td>${describeGame(session.bestGame)}</td>
+            <td>${describeGame(session.worstGame)}</td>
+        </tr>`).join('');
+
+    return `<div class="session-list"><table class="h2h-table">
+        <thead><tr><th>Session</th><th>Games</th><th>W–L</th><th>Net</th><th>Rating</th><th>Best</th><th>Worst</th></tr></thead>
+        <tbody>${rows}</tbody></table></div>`;
+}
+
+/**
+ * Switches the expanded view between the line chart and the heatmap.
+ * @param visible Whether to show the heatmap.
+ */
+function setHeatmapVisible(visible: boolean): void {
+    isHeatmapVisible = visible;
+    document.getElementById('guesslyticsCanvas')!.style.display = visible ? 'none' : 'block';
+    document.getElementById('guesslyticsHeatmap')!.style.display = visible ? 'block' : 'none';
+    document.getElementById('guesslyticsHeatmapBtn')!.classList.toggle('active', visible);
+}
 
-    const netChange = visibleData[visibleData.length - 1].rating - visibleData[0].rating;
-    const totalGames = visibleData.length - 1;
-    const avgNet = totalGames > 0 ? (netChange / totalGames).toFixed(2) : '0';
-    const avgNetEl = `<div class="value ${Number(avgNet) >= 0 ? 'positive' : 'negative'}">${Number(avgNet) >= 0 ? '+' : ''}${avgNet}</div>`;
+/**
+ * Draws the weekday × hour heatmap of average rating change onto its canvas.
+ * Cells are green or red by the sign of the average, more opaque the larger it is,
+ * and show their game count when there is room. Hovering a cell shows its details.
+ * @param entries The entries of the selected dataset and stats range, sorted by timestamp.
+ */
+function renderHeatmap(entries: RatingEntry[]): void {
+    const canvas = document.getElementById('guesslyticsHeatmap') as HTMLCanvasElement | null;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const grid = buildHeatmap(entries);
+    const { maxAbsDelta } = getHeatmapScale(grid);
+
+    // Draw at the device's pixel ratio, so the labels stay sharp.
+    const ratio = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const left = 32;
+    const top = 14;
+    const cellWidth = (width - left) / 24;
+    const cellHeight = (height - top) / 7;
+    ctx.font = "10px 'ggFont', sans-serif";
+    ctx.fillStyle = '#aaa';
+    ctx.textBaseline = 'middle';
+
+    ctx.textAlign = 'center';
+    for (let hour = 0; hour < 24; hour += 3) {
+        ctx.fillText(formatHour(hour), left + (hour + 0.5) * cellWidth, top / 2);
+    }
+    ctx.textAlign = 'left';
+    HEATMAP_WEEKDAYS.forEach((day, row) => ctx.fillText(day, 0, top + (row + 0.5) * cellHeight));
+
+    grid.forEach((cells, row) => cells.forEach((cell, hour) => {
+        const x = left + hour * cellWidth;
+        const y = top + row * cellHeight;
+        if (cell.avgDelta == null) {
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.04)';
+        } else {
+            const alpha = 0.15 + 0.85 * (maxAbsDelta > 0 ? Math.abs(cell.avgDelta) / maxAbsDelta : 0);
+            ctx.fillStyle = cell.avgDelta >= 0 ? `rgba(76, 175, 80, ${alpha})` : `rgba(244, 67, 54, ${alpha})`;
+        }
+        ctx.fillRect(x + 1, y + 1, cellWidth - 2, cellHeight - 2);
 
-    const winRate = wins + losses > 0 ? Math.round((wins / (wins + losses)) * 100) : 0;
-    let winRateClass = '';
-    if (winRate > 50) winRateClass = 'positive';
-    if (winRate < 50) winRateClass = 'negative';
-    const winRateEl = `<div class="value ${winRateClass}">${winRate}%</div>`;
+        if (cell.games > 0 && cellWidth >= 16 && cellHeight >= 12) {
+            ctx.fillStyle = '#fff';
+            ctx.textAlign = 'center';
+            ctx.fillText(String(cell.games), x + cellWidth / 2, y + cellHeight / 2);
+        }
+    }));
 
-    const avgGain = wins > 0 ? (gains / wins).toFixed(2) : '0';
-    const avgLoss = losses > 0 ? (lossesTotal / losses).toFixed(2) : '0';
+    canvas.onmousemove = (e) => {
+        const rect = canvas.getBoundingClientRect();
+        const hour = Math.floor((e.clientX - rect.left - left) / cellWidth);
+        const row = Math.floor((e.clientY - rect.top - top) / cellHeight);
+        const cell = grid[row]?.[hour];
+        if (!cell) {
+            canvas.title = '';
+            return;
+        }
+        const slot = `${HEATMAP_WEEKDAYS[row]} ${formatHour(hour)}:00`;
+        canvas.title = cell.avgDelta == null
+            ? `${slot} – No games`
+            : `${slot} – ${cell.games} game${cell.games === 1 ? '' : 's'}, avg ${cell.avgDelta >= 0 ? '+' : ''}${cell.avgDelta.toFixed(1)}`;
+    };
+}
 
-    statsEl.innerHTML = `
-        <div class="stat-item">${lastChangeEl}<div class="label">Last Change</div></div>
-        <div class="stat-item">${avgNetEl}<div class="label">Avg. Net/Game</div></div>
-        <div class="stat-item">${winRateEl}<div class="label">Win Rate</div></div>
-        <div class="stat-item"><div class="value positive">+${avgGain}</div><div class="label">Avg Gain</div></div>
-        <div class="stat-item"><div class="value negative">${avgLoss}</div><div class="label">Avg Loss</div></div>
-        <div class="stat-item"><div class="value">${peakRating}</div><div class="label">Peak Rating</div></div>`;
+/**
+ * Renders the `<option>` elements for the stats mode selector.
+ * @param selected The currently selected stats mode.
+ * @param timeframe The window size used by the `days` and `games` modes.
+ * @returns The options HTML.
+ */
+function renderStatsModeOptions(selected: StatsMode, timeframe: number): string {
+    const labels: Record<StatsMode, string> = {
+        visible: 'Visible Range',
+        days: `Last ${timeframe} Days`,
+        games: `Last ${timeframe} Games`,
+        today: 'Today',
+        week: 'This Week',
+    };
+    return (Object.keys(labels) as StatsMode[])
+        .map((mode) => `<option value="${mode}" ${mode === selected ? 'selected' : ''}>${labels[mode]}</option>`)
+        .join('');
 }
 
 /**
@@ -201,7 +653,11 @@ export async function renderSettingsPanel(settings: Settings): Promise<void> {
     if (!settingsPanel) return;
 
     const data = await getStoredData();
-    const backfillState = await GM_getValue(BACKFILL_STATE_KEY, { lastLimitDays: 0, lastSyncTimestamp: null, ended: false });
+    const backfillState = await getBackfillState();
+    const cacheStats = getDuelCacheStats(await loadDuelCache());
+    const accounts = await getKnownAccounts();
+    const loggedInId = getUserId();
+    const activeId = getActiveAccount();
 
     const stats = {
         points: data.overall.length,
@@ -214,33 +670,85 @@ export async function renderSettingsPanel(settings: Settings): Promise<void> {
         <div id="guesslyticsSettingsOverlay"></div>
         <div id="guesslyticsSettingsModal">
             <h2>Guesslytics Settings</h2>
+            <div class="settings-section"><h4>Account</h4>
+                <div class="settings-row"><label for="accountSelect">Show Data Of</label>
+                <select id="accountSelect">${accounts.map((a) =>
+                    `<option value="${a.userId}" ${a.userId === activeId ? 'selected' : ''}>${escapeHtml(a.nick ?? a.userId)}${
+                        a.userId === loggedInId ? ' (logged in)' : ''}</option>`).join('')}
+                </select></div>
+                ${activeId !== loggedInId
+                    ? '<div class="settings-note">Syncing is paused while another account\'s data is shown.</div>' : ''}
+                <div id="accountStatus" class="settings-note"></div></div>
             <div class="settings-section"><h4>Graphs</h4>
-                <div class="graph-toggle-row">${Object.entries(DATASET_STYLES).map(([key, val]) =>
+                <div class="graph-toggle-row">${getModeKeys(data).map((key) => [key, getDatasetStyle(key)] as const).map(([key, val]) =>
                     `<div class="graph-toggle-item"><label for="ds_${key}" style="display:flex;align-items:center;">
                     <span class="color-swatch" style="background:${val.color};"></span>${val.label}</label>
-                    <input type="checkbox" id="ds_${key}" data-key="${key}" ${settings.visibleDatasets[key as keyof typeof settings.visibleDatasets] ? 'checked' : ''}>
+                    <input type="checkbox" id="ds_${key}" data-key="${key}" ${(settings.visibleDatasets[key] ?? true) ? 'checked' : ''}>
                     </div>`).join('')}
                 </div>
                 <div class="settings-row"><label for="showAreaFill">Show Area Fill</label>
-                <input type="checkbox" id="showAreaFill" ${settings.showAreaFill ? 'checked' : ''}></div></div>
+                <input type="checkbox" id="showAreaFill" ${settings.showAreaFill ? 'checked' : ''}></div>
+                <div class="settings-row"><label for="showSessions">Shade Sessions</label>
+                <input type="checkbox" id="showSessions" ${settings.showSessions ? 'checked' : ''}></div></div>
             <div class="settings-section"><h4>Data Sync</h4>
                 <div class="settings-row"><label for="backfillFull">Sync Full History</label>
                 <input type="checkbox" id="backfillFull" ${settings.backfillFullHistory ? 'checked' : ''}></div>
                 <div class="settings-row" id="backfillDaysRow"><label for="backfillDays">Sync history for (days)</label>
                 <input type="number" id="backfillDays" value="${settings.backfillDays}" min="1"></div></div>
+            <div class="settings-section"><h4>Statistics</h4>
+                <div class="settings-row"><label for="statsMode">Stats Range</label>
+                <select id="statsMode">${renderStatsModeOptions(settings.statsMode, settings.statsTimeframe)}</select></div>
+                <div class="settings-row"><label for="statsTimeframe">Rolling Window (days/games)</label>
+                <input type="number" id="statsTimeframe" value="${settings.statsTimeframe}" min="1"></div>
+                <div class="settings-row"><label for="sessionGapMinutes">Session Break (min)</label>
+                <input type="number" id="sessionGapMinutes" value="${settings.sessionGapMinutes}" min="1"></div></div>
+            <div class="settings-section"><h4>Divisions</h4>
+                <div class="settings-row"><label for="showDivisions">Show Divisions on Chart</label>
+                <input type="checkbox" id="showDivisions" ${settings.showDivisions ? 'checked' : ''}></div>
+                ${DIVISIONS.map((division) => `<div class="settings-row"><label for="div_${division.key}" style="display:flex;align-items:center;">
+                <span class="color-swatch" style="background:${division.color};"></span>${division.label} From</label>
+                <input type="number" id="div_${division.key}" data-key="${division.key}" value="${settings.divisionThresholds[division.key] ?? 0}" min="0"></div>`).join('')}
+                <div class="settings-note">Minimum rating of each division. Adjust them when GeoGuessr changes the thresholds.</div></div>
+            <div class="settings-section"><h4>Goals</h4>
+                ${getModeKeys(data).map((key) => [key, getDatasetStyle(key)] as const).map(([key, val]) =>
+                    `<div class="settings-row"><label for="goal_${key}" style="display:flex;align-items:center;">
+                    <span class="color-swatch" style="background:${val.color};"></span>${val.label} Target</label>
+                    <input type="number" id="goal_${key}" data-key="${key}" value="${settings.goals[key] ?? ''}" min="0" placeholder="None"></div>`).join('')}
+                <div class="settings-note">Target rating per mode. Leave empty for no goal.</div></div>
             <div class="settings-section"><h4>Advanced</h4>
                 <div class="settings-row"><label for="initialZoomDays">Initial Zoom (days)</label>
                 <input type="number" id="initialZoomDays" value="${settings.initialZoomDays || 7}" min="1"></div>
                 <div class="settings-row"><label for="autoRefreshInterval">Refresh Interval (sec)</label>
                 <input type="number" id="autoRefreshInterval" value="${settings.autoRefreshInterval}" min="10"></div>
-                <div class="settings-row"><label for="apiRequestDelay">API Request Delay (ms)</label>
+                <div class="settings-row"><label for="apiRequestDelay">Max API Request Delay (ms)</label>
                 <input type="number" id="apiRequestDelay" value="${settings.apiRequestDelay}" min="50"></div>
+                <div class="settings-row"><label for="maxParallelRequests">Parallel Duel Requests</label>
+                <input type="number" id="maxParallelRequests" value="${settings.maxParallelRequests}" min="1" max="4"></div>
                 <div class="settings-row"><label for="bgOpacity">Background Opacity (%)</label>
                 <input type="range" id="bgOpacity" value="${settings.backgroundOpacity}" min="0" max="100"></div>
                 <div class="settings-row"><label for="verboseLogging">Enable Verbose Logging</label>
                 <input type="checkbox" id="verboseLogging" ${settings.verboseLogging ? 'checked' : ''}></div></div>
+            <div class="settings-section"><h4>Export &amp; Import</h4>
+                <div class="settings-row"><label for="exportFrom">From (optional)</label>
+                <input type="date" id="exportFrom" class="backup-input"></div>
+                <div class="settings-row"><label for="exportTo">To (optional)</label>
+                <input type="date" id="exportTo" class="backup-input"></div>
+                <div class="settings-actions"><button id="exportJsonBtn">Export JSON</button>
+                <button id="exportCsvBtn">Export CSV</button>
+                <button id="importBtn">Import Backup</button></div>
+                <input type="file" id="importFile" class="backup-input" accept=".json,.csv" hidden>
+                <div id="importStatus" class="settings-note"></div></div>
+            <div class="settings-section"><h4>Duel Cache</h4>
+                <div class="settings-note">${cacheStats.count} duels cached (${(cacheStats.bytes / 1024 / 1024).toFixed(1)} MB).
+                Cached duels are not fetched again, and the history can be rebuilt from them offline.</div>
+                <div class="settings-actions"><button id="rebuildFromCacheBtn">Rebuild History</button>
+                <button id="clearCacheBtn">Clear Cache</button></div>
+                <div id="cacheStatus" class="settings-note"></div></div>
             <div class="settings-stats"><b>Games Tracked:</b> ${stats.points} | <b>Last Sync:</b> ${stats.lastSync}<br>
-            <b>Date Range:</b> ${stats.oldest} – ${stats.newest}</div>
+            <b>Date Range:</b> ${stats.oldest} – ${stats.newest}${backfillState.cursor
+                ? `<br><b>Backfill Resumes From:</b> ${formatDate(backfillState.cursor.oldestTimestamp)}` : ''}</div>
+            <div id="guesslyticsSyncProgress" class="settings-stats${syncProgress ? '' : ' hidden'}">${describeSyncProgress(syncProgress)}</div>
+            <div id="guesslyticsRateLimit" class="settings-stats${rateLimitState ? '' : ' hidden'}">${describeRateLimitState(rateLimitState)}</div>
             <div class="settings-actions"><button id="resetSettingsBtn">Reset Settings</button>
             <button id="clearDataBtn">Clear All Data</button></div>
             <div class="settings-footer"><a href="https://github.com/Avanatiker/Guesslytics" target="_blank">
@@ -280,6 +788,130 @@ export async function renderSettingsPanel(settings: Settings): Promise<void> {
     }
 }
 
+/**
+ * Renders the clickable legend chips in the header, showing each series' current rating.
+ * Clicking a chip toggles the dataset on the existing chart and persists the choice.
+ * @param data The rating history data.
+ * @param settings The user's current settings.
+ */
+function renderLegend(data: RatingHistory, settings: Settings): void {
+    const legendEl = document.getElementById('guesslyticsLegend');
+    if (!legendEl) return;
+
+    const keys = getModeKeys(data);
+    legendEl.innerHTML = keys.map((key) => {
+        const style = getDatasetStyle(key);
+        const entries = data[key] ?? [];
+        const current = entries.length > 0 ? entries[entries.length - 1].rating : '–';
+        return `<button class="legend-chip ${(settings.visibleDatasets[key] ?? true) ? '' : 'inactive'}" data-key="${key}" title="Toggle ${style.label}">
+            <span class="color-swatch" style="background:${style.color};"></span>${style.label} <b>${current}</b></button>`;
+    }).join('');
+
+    legendEl.querySelectorAll<HTMLButtonElement>('.legend-chip').forEach((chip) => {
+        chip.onclick = async () => {
+            const key = chip.dataset.key!;
+            const visible = !(settings.visibleDatasets[key] ?? true);
+            settings.visibleDatasets[key] = visible;
+            chip.classList.toggle('inactive', !visible);
+            logger.log(`Dataset toggled from legend: ${key}`, { visible });
+
+            if (ratingChart && chartModeKeys.includes(key)) {
+                ratingChart.data.datasets[chartModeKeys.indexOf(key)].hidden = !visible;
+                ratingChart.update('none');
+            }
+            if (isGraphExpanded) calculateAndRenderStats();
+            await GM_setValue(SETTINGS_KEY, settings);
+        };
+    });
+}
+
+/**
+ * Renders the head-to-head panel listing every opponent found in the stored duel records.
+ */
+async function renderOpponentsPanel(): Promise<void> {
+    logger.log('Rendering opponents panel.');
+    const opponentsPanel = document.getElementById('guesslyticsOpponentsPanel');
+    if (!opponentsPanel) return;
+
+    const headToHead = buildHeadToHead(Object.values(await getStoredDuelRecords()));
+    const rows = headToHead.map((h2h) => {
+        const netClass = h2h.netRating > 0 ? 'positive' : h2h.netRating < 0 ? 'negative' : '';
+        return `<tr>
+            <td><a href="https://www.geoguessr.com/user/${encodeURIComponent(h2h.playerId)}" target="_blank">${escapeHtml(h2h.nick ?? h2h.playerId.slice(0, 8))}</a></td>
+            <td>${h2h.games}</td>
+            <td>${h2h.wins}–${h2h.losses}${h2h.draws > 0 ? `–${h2h.draws}` : ''}</td>
+            <td class="${netClass}">${h2h.netRating > 0 ? '+' : ''}${h2h.netRating}</td>
+            <td><a href="${duelPageUrl(h2h.lastGameId)}" target="_blank">${new Date(h2h.lastMeeting).toLocaleDateString()}</a></td>
+        </tr>`;
+    }).join('');
+
+    opponentsPanel.innerHTML = `
+        <div id="guesslyticsOpponentsOverlay"></div>
+        <div id="guesslyticsOpponentsModal">
+            <h2>Head-to-Head</h2>
+            ${headToHead.length === 0
+                ? '<div class="settings-stats">No opponent data yet. Opponents are recorded for games synced from now on.</div>'
+                : `<div class="h2h-table-wrapper"><table class="h2h-table">
+                    <thead><tr><th>Opponent</th><th>Games</th><th>W–L</th><th>Net</th><th>Last Met</th></tr></thead>
+                    <tbody>${rows}</tbody></table></div>`}
+        </div>`;
+
+    const close = () => {
+        opponentsPanel.style.display = 'none';
+        document.removeEventListener('keydown', handleKeyPress);
+    };
+    const handleKeyPress = (e: KeyboardEvent) => {
+        if (e.key === 'Escape' && opponentsPanel.style.display === 'block') close();
+    };
+    document.getElementById('guesslyticsOpponentsOverlay')!.onclick = close;
+    document.addEventListener('keydown', handleKeyPress);
+}
+
+/**
+ * Escapes a string for safe insertion into HTML, e.g. user-chosen nicks.
+ * @param text The text to escape.
+ * @returns The escaped text.
+ */
+function escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+}
+
+/**
+ * Builds the link to a duel's page. The game ID is encoded, since it can come from an imported backup.
+ * @param gameId The ID of the game.
+ * @returns The URL, safe to insert into an HTML attribute.
+ */
+function duelPageUrl(gameId: string): string {
+    return `https://www.geoguessr.com/duels/${encodeURIComponent(gameId)}`;
+}
+
+/**
+ * Describes the opponents and result of a game for the chart tooltip.
+ * @param gameId The ID of the game.
+ * @returns The tooltip lines, or an empty array if no duel record is stored for the game.
+ */
+function describeOpponents(gameId: string): string[] {
+    const record = duelRecordsById[gameId];
+    if (!record || record.opponents.length === 0) return [];
+
+    const names = record.opponents
+        .map((o) => `${o.nick ?? o.playerId.slice(0, 8)}${o.rating != null ? ` (${o.rating})` : ''}`)
+        .join(', ');
+    const result = record.result === 'win' ? 'Win' : record.result === 'loss' ? 'Loss' : 'Draw';
+    return [`vs ${names} · ${result}`];
+}
+
+/**
+ * Converts a rating entry into a chart data point.
+ * @param entry The rating entry.
+ * @returns The chart data point.
+ */
+function toChartPoint(entry: RatingEntry): ChartDataPoint {
+    return { x: new Date(entry.timestamp).getTime(), y: entry.rating, gameId: entry.gameId };
+}
+
 /**
  * Creates chart datasets from rating history data.
  * @param data The rating history data.
@@ -288,19 +920,15 @@ export async function renderSettingsPanel(settings: Settings): Promise<void> {
  * @returns An array of chart datasets.
  */
 function createChartDatasets(data: RatingHistory, settings: Settings, canvas: HTMLCanvasElement): ChartDataset[] {
-    return Object.keys(DATASET_STYLES).map((key) => {
-        const style = DATASET_STYLES[key as keyof typeof DATASET_STYLES];
-        const gradient = canvas.getContext('2d')!.createLinearGradient(0, 0, 0, isGraphExpanded ? 400 : 210);
+    return chartModeKeys.map((key) => {
+        const style = getDatasetStyle(key);
+        const gradient = canvas.getContext('2d')!.createLinearGradient(0, 0, 0, isGraphExpanded ? 460 : 210);
         gradient.addColorStop(0, `${style.color}55`);
         gradient.addColorStop(1, `${style.color}05`);
 
         return {
             label: style.label,
-            data: data[key as keyof RatingHistory].map((d) => ({
-                x: new Date(d.timestamp).getTime(),
-                y: d.rating,
-                gameId: d.gameId,
-            })),
+            data: (data[key] ?? []).map(toChartPoint),
             borderColor: style.color,
             borderWidth: key === 'overall' ? 2.5 : 2,
             pointRadius: 0,
@@ -311,7 +939,7 @@ function createChartDatasets(data: RatingHistory, settings: Settings, canvas: HT
             backgroundColor: gradient,
             tension: 0,
             stepped: true,
-            hidden: !settings.visibleDatasets[key as keyof typeof settings.visibleDatasets],
+            hidden: !(settings.visibleDatasets[key] ?? true),
         };
     });
 }
@@ -340,6 +968,149 @@ function createCrosshairLinePlugin() {
     };
 }
 
+/**
+ * Creates a plugin that marks the lowest rating of the stats range with a ring and its value.
+ * The low point is set by `calculateAndRenderStats`, so it follows the stats tab and range.
+ * @returns The lowest rating plugin.
+ */
+function createLowestRatingPlugin() {
+    return {
+        id: 'lowestRating',
+        afterDatasetsDraw: (chart: any) => {
+            if (!lowestRating) return;
+            const { ctx, chartArea: { left, right, top, bottom }, scales: { x, y } } = chart;
+            const pointX = x.getPixelForValue(new Date(lowestRating.timestamp).getTime());
+            const pointY = y.getPixelForValue(lowestRating.rating);
+            if (pointX < left || pointX > right || pointY < top || pointY > bottom) return;
+
+            ctx.save();
+            ctx.strokeStyle = '#F44336';
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.arc(pointX, pointY, 5, 0, Math.PI * 2);
+            ctx.stroke();
+            ctx.font = "10px 'ggFont', sans-serif";
+            ctx.fillStyle = '#F44336';
+            ctx.textAlign = 'center';
+            // Put the label below the point, unless that would leave the chart area.
+            const below = pointY + 18 <= bottom;
+            ctx.textBaseline = below ? 'top' : 'bottom';
+            ctx.fillText(`Low ${lowestRating.rating}`, pointX, below ? pointY + 8 : pointY - 8);
+            ctx.restore();
+        },
+    };
+}
+
+/**
+ * Creates a plugin that shades every other play session of the overall series, so sessions
+ * stand out as alternating regions behind the rating lines.
+ * @param settings The user's current settings.
+ * @returns The session shading plugin.
+ */
+function createSessionShadingPlugin(settings: Settings) {
+    return {
+        id: 'sessionShading',
+        beforeDatasetsDraw: (chart: any) => {
+            if (!settings.showSessions) return;
+            const { ctx, chartArea: { left, right, top, bottom }, scales: { x } } = chart;
+            ctx.save();
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.06)';
+            // Sessions are counted from the oldest, so the shading doesn't flip when a new session starts.
+            chartSessions.forEach((session, i) => {
+                if (i % 2 === 1) return;
+                // Pad the region a little, so single-game sessions are still visible.
+                const start = Math.max(left, x.getPixelForValue(new Date(session[0].timestamp).getTime()) - 2);
+                const end = Math.min(right, x.getPixelForValue(new Date(session[session.length - 1].timestamp).getTime()) + 2);
+                if (end > start) ctx.fillRect(start, top, end - start, bottom - top);
+            });
+            ctx.restore();
+        },
+    };
+}
+
+/**
+ * Creates a plugin that draws the competitive divisions behind the rating lines: a faint band
+ * per division and a labelled, dashed line at each threshold within the visible rating range.
+ * @param settings The user's current settings.
+ * @returns The division bands plugin.
+ */
+function createDivisionBandsPlugin(settings: Settings) {
+    const divisions = getDivisionRanges(settings.divisionThresholds);
+    return {
+        id: 'divisionBands',
+        beforeDatasetsDraw: (chart: any) => {
+            if (!settings.showDivisions) return;
+            const { ctx, chartArea: { left, right, top, bottom }, scales: { y } } = chart;
+            ctx.save();
+            ctx.font = "10px 'ggFont', sans-serif";
+            ctx.textAlign = 'right';
+            ctx.textBaseline = 'bottom';
+
+            for (const division of divisions) {
+                const minY = y.getPixelForValue(division.min);
+                const maxY = division.max != null ? y.getPixelForValue(division.max) : top;
+                const bandTop = Math.max(top, maxY);
+                const bandBottom = Math.min(bottom, minY);
+                if (bandBottom <= bandTop) continue;
+
+                ctx.fillStyle = `${division.color}14`;
+                ctx.fillRect(left, bandTop, right - left, bandBottom - bandTop);
+
+                if (minY <= bottom) {
+                    ctx.strokeStyle = `${division.color}99`;
+                    ctx.lineWidth = 1;
+                    ctx.setLineDash([4, 4]);
+                    ctx.beginPath();
+                    ctx.moveTo(left, minY);
+                    ctx.lineTo(right, minY);
+                    ctx.stroke();
+                }
+
+                ctx.fillStyle = division.color;
+                ctx.fillText(division.label, right - 4, bandBottom - 2);
+            }
+            ctx.restore();
+        },
+    };
+}
+
+/**
+ * Creates a plugin that draws a labelled, dashed line at the target rating of each visible mode with a goal.
+ * @param settings The user's current settings.
+ * @returns The goal lines plugin.
+ */
+function createGoalLinesPlugin(settings: Settings) {
+    return {
+        id: 'goalLines',
+        beforeDatasetsDraw: (chart: any) => {
+            const { ctx, chartArea: { left, right, top, bottom }, scales: { y } } = chart;
+            ctx.save();
+            ctx.font = "10px 'ggFont', sans-serif";
+            ctx.textAlign = 'left';
+            ctx.textBaseline = 'bottom';
+            ctx.lineWidth = 1;
+            ctx.setLineDash([6, 3]);
+
+            for (const key of chartModeKeys) {
+                const target = settings.goals[key];
+                if (!target || !(settings.visibleDatasets[key] ?? true)) continue;
+                const goalY = y.getPixelForValue(target);
+                if (goalY < top || goalY > bottom) continue;
+
+                const { color } = getDatasetStyle(key);
+                ctx.strokeStyle = color;
+                ctx.beginPath();
+                ctx.moveTo(left, goalY);
+                ctx.lineTo(right, goalY);
+                ctx.stroke();
+                ctx.fillStyle = color;
+                ctx.fillText(`Goal ${target}`, left + 4, goalY - 2);
+            }
+            ctx.restore();
+        },
+    };
+}
+
 /**
  * Creates chart options for the rating history chart.
  * @param data The rating history data.
@@ -358,6 +1129,7 @@ function createChartOptions(
     maxTimestamp: number | null,
     wasDragging: { value: boolean }
 ): ChartOptions {
+    const divisions = getDivisionRanges(settings.divisionThresholds);
     const chartOptions: ChartOptions = {
         animation: false,
         responsive: true,
@@ -367,7 +1139,7 @@ function createChartOptions(
             if (wasDragging.value || elements.length === 0) return;
             const { datasetIndex, index } = elements[0];
             const gameId = ratingChart.data.datasets[datasetIndex].data[index].gameId;
-            if (gameId) window.open(`https://www.geoguessr.com/duels/${gameId}`, '_blank');
+            if (gameId) window.open(duelPageUrl(gameId), '_blank');
         },
         plugins: {
             title: { display: false },
@@ -384,8 +1156,10 @@ function createChartOptions(
                 callbacks: {
                     title: (items) => formatDate(items[0].parsed.x),
                     label: (context) => {
-                        return `${context.dataset.label}: ${context.parsed.y}`;
-                    }
+                        const standing = settings.showDivisions ? getDivisionStanding(context.parsed.y, divisions) : null;
+                        return `${context.dataset.label}: ${context.parsed.y}${standing ? ` (${describeDivisionStanding(standing)})` : ''}`;
+                    },
+                    afterBody: (items) => describeOpponents(items[0]?.raw?.gameId),
                 },
             },
         },
@@ -420,17 +1194,12 @@ function createChartOptions(
 
 /**
  * Sets up pan and zoom interactions for the chart.
+ * Panning and zooming are limited to the current `chartBounds`, which grow as points are appended.
  * @param canvas The canvas element for the chart.
- * @param data The rating history data.
- * @param minTimestamp The minimum timestamp in the data.
- * @param maxTimestamp The maximum timestamp in the data.
  * @param wasDragging Reference to the wasDragging flag.
  */
 function setupChartInteractions(
     canvas: HTMLCanvasElement, 
-    data: RatingHistory, 
-    minTimestamp: number | null, 
-    maxTimestamp: number | null,
     wasDragging: { value: boolean }
 ): void {
     let isPanning = false, lastX = 0, startX = 0;
@@ -463,7 +1232,8 @@ function setupChartInteractions(
         let newMin = scales.x.min - (scales.x.max - scales.x.min) * (deltaX / scales.x.width);
         let newMax = scales.x.max - (scales.x.max - scales.x.min) * (deltaX / scales.x.width);
 
-        if (data.overall.length > 1 && minTimestamp && maxTimestamp) {
+        const { min: minTimestamp, max: maxTimestamp } = chartBounds;
+        if (minTimestamp && maxTimestamp && minTimestamp < maxTimestamp) {
             if (newMin < minTimestamp) {
                 const diff = minTimestamp - newMin;
                 newMin += diff;
@@ -489,7 +1259,8 @@ function setupChartInteractions(
         let newMin = mouseTimestamp - (mouseTimestamp - scales.x.min) * zoomFactor;
         let newMax = mouseTimestamp + (scales.x.max - mouseTimestamp) * zoomFactor;
 
-        if (data.overall.length > 1 && minTimestamp && maxTimestamp) {
+        const { min: minTimestamp, max: maxTimestamp } = chartBounds;
+        if (minTimestamp && maxTimestamp && minTimestamp < maxTimestamp) {
             if (newMin < minTimestamp) newMin = minTimestamp;
             if (newMax > maxTimestamp) newMax = maxTimestamp;
         }
@@ -509,6 +1280,8 @@ function setupChartInteractions(
  * @param settings The user's current settings.
  */
 export async function renderGraph(data: RatingHistory, settings: Settings): Promise<void> {
+    currentSettings = settings;
+    duelRecordsById = await getStoredDuelRecords();
     const wasEmpty = !ratingChart || ratingChart.data.datasets.every((ds: ChartDataset) => ds.data.length === 0);
     const currentZoom = ratingChart && !wasEmpty ? { min: ratingChart.scales.x.min, max: ratingChart.scales.x.max } : null;
 
@@ -519,32 +1292,91 @@ export async function renderGraph(data: RatingHistory, settings: Settings): Prom
 
     canvas.style.cursor = 'grab';
 
-    // Calculate timestamp bounds
-    const timestamps = data.overall.map((d) => new Date(d.timestamp).getTime());
-    const minTimestamp = data.overall.length > 0 ? Math.min(...timestamps) : null;
-    const maxTimestamp = data.overall.length > 0 ? Math.max(...timestamps) : null;
+    // Calculate timestamp bounds (entries are sorted by time)
+    const minTimestamp = data.overall.length > 0 ? new Date(data.overall[0].timestamp).getTime() : null;
+    const maxTimestamp = data.overall.length > 0 ? new Date(data.overall[data.overall.length - 1].timestamp).getTime() : null;
+    chartBounds = { min: minTimestamp, max: maxTimestamp };
 
     // Create datasets, options, and plugins
     const wasDragging = { value: false }; // Use an object to allow reference passing
+    chartModeKeys = getModeKeys(data);
+    chartSessions = groupSessions(data.overall, settings.sessionGapMinutes * 60 * 1000);
     const datasets = createChartDatasets(data, settings, canvas);
     const chartOptions = createChartOptions(data, settings, currentZoom, minTimestamp, maxTimestamp, wasDragging);
     const crosshairLinePlugin = createCrosshairLinePlugin();
+    const divisionBandsPlugin = createDivisionBandsPlugin(settings);
+    const sessionShadingPlugin = createSessionShadingPlugin(settings);
+    const goalLinesPlugin = createGoalLinesPlugin(settings);
+    const lowestRatingPlugin = createLowestRatingPlugin();
 
     // Create the chart
     ratingChart = new Chart(canvas, {
         type: 'line',
         data: { datasets },
         options: chartOptions,
-        plugins: [crosshairLinePlugin],
+        plugins: [sessionShadingPlugin, divisionBandsPlugin, goalLinesPlugin, lowestRatingPlugin, crosshairLinePlugin],
     });
 
     // Set up pan and zoom interactions
-    setupChartInteractions(canvas, data, minTimestamp, maxTimestamp, wasDragging);
+    setupChartInteractions(canvas, wasDragging);
+    renderLegend(data, settings);
 
     // Update stats if expanded
     if (isGraphExpanded) calculateAndRenderStats();
 }
 
+/**
+ * Appends newly synced entries to the existing chart without rebuilding it.
+ * The current pan/zoom window is kept. Falls back to a full render if there is no chart yet
+ * or it has no data, so the initial zoom is still applied. Goals reached by the new entries are
+ * announced in the header.
+ * @param added The new entries per mode, sorted by timestamp.
+ * @param settings The user's current settings.
+ */
+export async function appendToGraph(added: RatingHistory, settings: Settings): Promise<void> {
+    currentSettings = settings;
+    const data = await getStoredData();
+    const reachedGoals = getNewlyReachedGoals(data, added, settings.goals);
+    if (reachedGoals.length > 0) {
+        logger.log('Goals reached.', reachedGoals);
+        showGoalNotice(reachedGoals);
+    }
+
+    const isEmpty = !ratingChart || ratingChart.data.datasets.every((ds: ChartDataset) => ds.data.length === 0);
+    // A mode played for the first time needs a new series, which only a full render creates.
+    const hasNewMode = Object.keys(added).some((key) => added[key].length > 0 && !chartModeKeys.includes(key));
+    if (isEmpty || hasNewMode) {
+        await renderGraph(data, settings);
+        return;
+    }
+
+    duelRecordsById = await getStoredDuelRecords();
+
+    chartModeKeys.forEach((key, i) => {
+        if (!added[key]?.length) return;
+        const dataset: ChartDataset = ratingChart.data.datasets[i];
+        const points = added[key].map(toChartPoint);
+        const lastPoint = dataset.data[dataset.data.length - 1];
+        dataset.data.push(...points);
+        // Backfilled pages are older than what is already drawn, so restore time order if needed.
+        if (lastPoint && points[0].x < lastPoint.x) dataset.data.sort((a, b) => a.x - b.x);
+    });
+
+    if (added.overall.length > 0) {
+        const first = new Date(added.overall[0].timestamp).getTime();
+        const last = new Date(added.overall[added.overall.length - 1].timestamp).getTime();
+        chartBounds = {
+            min: chartBounds.min != null ? Math.min(chartBounds.min, first) : first,
+            max: chartBounds.max != null ? Math.max(chartBounds.max, last) : last,
+        };
+    }
+
+    chartSessions = groupSessions(data.overall, settings.sessionGapMinutes * 60 * 1000);
+    ratingChart.update('none');
+    renderLegend(data, settings);
+    if (isGraphExpanded) calculateAndRenderStats();
+}
+
 /**
  * Starts the automatic refresh cycle to check for new games.
  * @param settings The user's current settings.
@@ -563,7 +1395,8 @@ export function startRefreshCycle(
     const timerEl = document.getElementById('guesslyticsTimer');
     if (!timerEl) return;
 
-    if (!userId || settings.autoRefreshInterval <= 0) {
+    // Only the logged-in account can be synced, so there is nothing to refresh while another account is shown.
+    if (!userId || userId !== getActiveAccount() || settings.autoRefreshInterval <= 0) {
         timerEl.style.display = 'none';
         return;
     }
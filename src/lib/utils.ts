@@ -1,5 +1,28 @@
-import { RatingHistory, Settings } from '../types';
-import { DEFAULT_SETTINGS, RATING_HISTORY_KEY, SETTINGS_KEY } from './constants';
+import {
+    AccountInfo,
+    BackfillState,
+    DatasetStyle,
+    DuelRecord,
+    DuelRecordStore,
+    RatingEntry,
+    RatingHistory,
+    Settings
+} from '../types';
+import {
+    ACCOUNTS_KEY,
+    BACKFILL_STATE_KEY,
+    DATASET_STYLES,
+    DEFAULT_BACKFILL_STATE,
+    DEFAULT_SETTINGS,
+    DUEL_RECORDS_KEY,
+    DUEL_RECORDS_VERSION,
+    FALLBACK_DATASET_COLORS,
+    MODE_KEYS,
+    RATING_HISTORY_KEY,
+    SETTINGS_KEY,
+    UNRANKED_GAME_MODE
+} from './constants';
+import { isIndexedDbAvailable, putHistoryEntries, readHistory, writeHistory } from './storage';
 
 // --- Logger and Error Handling ---
 
@@ -90,6 +113,14 @@ export async function loadSettings(): Promise<Settings> {
             ...DEFAULT_SETTINGS.visibleDatasets,
             ...loaded.visibleDatasets,
         },
+        divisionThresholds: {
+            ...DEFAULT_SETTINGS.divisionThresholds,
+            ...loaded.divisionThresholds,
+        },
+        goals: {
+            ...DEFAULT_SETTINGS.goals,
+            ...loaded.goals,
+        },
     };
     // Initialize the logger with the loaded setting.
     logger.setLogging(settings.verboseLogging);
@@ -125,8 +156,42 @@ export function waitForReady(condition: () => boolean, timeout = 20000): Promise
 /**
  * Pauses execution for a specified number of milliseconds.
  * @param ms The number of milliseconds to sleep.
+ * @param signal Optional signal that ends the sleep early when aborted.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve) => {
+        if (signal?.aborted) return resolve();
+        const timeoutId = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timeoutId);
+            resolve();
+        }, { once: true });
+    });
+
+/**
+ * Maps items through an async function with at most `limit` calls running at once.
+ * The results keep the order of the items, whatever order the calls finish in.
+ * @param items The items to map.
+ * @param limit The maximum number of calls running at once.
+ * @param fn The async function to apply to each item.
+ * @returns A promise that resolves with the results, in item order.
  */
-export const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = [];
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+    return results;
+}
 
 /**
  * Formats a timestamp into a localized string.
@@ -136,51 +201,263 @@ export const sleep = (ms: number): Promise<void> => new Promise((resolve) => set
 export const formatDate = (ts?: string | number): string => (ts ? new Date(ts).toLocaleString() : 'N/A');
 
 /**
- * Gets the current user's ID from the page's `__NEXT_DATA__` script tag.
+ * Formats a duration into a compact string using its two largest units (e.g. "2d 4h").
+ * @param ms The duration in milliseconds.
+ * @returns The formatted duration.
+ */
+export function formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const hours = Math.floor(minutes / 60);
+    const days = Math.floor(hours / 24);
+    if (days > 0) return `${days}d ${hours % 24}h`;
+    if (hours > 0) return `${hours}h ${minutes % 60}m`;
+    return `${minutes}m`;
+}
+
+/**
+ * Reads the logged-in user from the page's `__NEXT_DATA__` script tag.
  * This is a common way to access page data in Next.js applications.
- * @returns The user ID, or null if not found.
+ * @returns The user object, or null if not found.
  */
-export function getUserId(): string | null {
+function getPageUser(): { userId?: string; nick?: string } | null {
     try {
-        return (
-            JSON.parse(document.getElementById('__NEXT_DATA__')?.innerHTML || '{}')?.props?.accountProps?.account?.user
-                ?.userId || null
-        );
+        return JSON.parse(document.getElementById('__NEXT_DATA__')?.innerHTML || '{}')?.props?.accountProps?.account?.user ?? null;
     } catch (error) {
-        handleError(error, 'Failed to get user ID from page data', { silent: true });
+        handleError(error, 'Failed to get user from page data', { silent: true });
         return null;
     }
 }
 
 /**
- * Retrieves the stored rating history from GM storage.
+ * Gets the current user's ID from the page data.
+ * @returns The user ID, or null if not found.
+ */
+export function getUserId(): string | null {
+    return getPageUser()?.userId || null;
+}
+
+/**
+ * Gets the current user's nickname from the page data.
+ * @returns The nickname, or null if not found.
+ */
+export function getUserNick(): string | null {
+    return getPageUser()?.nick || null;
+}
+
+// --- Accounts ---
+
+/**
+ * The account whose data the storage helpers below read and write.
+ */
+let activeAccountId: string | null = null;
+
+/**
+ * Selects the account whose data is read and written from now on.
+ * @param userId The user ID of the account.
+ */
+export function setActiveAccount(userId: string): void {
+    if (userId !== activeAccountId) logger.log('Switching active account', { userId });
+    activeAccountId = userId;
+}
+
+/**
+ * Gets the account whose data is currently read and written.
+ * @returns The user ID of the active account.
+ * @throws If no account has been selected yet, so data is never written without an owner.
+ */
+export function getActiveAccount(): string {
+    if (!activeAccountId) throw new Error('No active account selected');
+    return activeAccountId;
+}
+
+/**
+ * Builds the GM storage key under which an account keeps a value.
+ * @param key The base storage key.
+ * @param userId The user ID of the account. Defaults to the active account.
+ * @returns The namespaced key.
+ */
+export function accountKey(key: string, userId: string = getActiveAccount()): string {
+    return `${key}.${userId}`;
+}
+
+/**
+ * Retrieves all accounts seen on this browser, most recently seen first.
+ * @returns A promise that resolves with the accounts.
+ */
+export async function getKnownAccounts(): Promise<AccountInfo[]> {
+    const accounts = ((await GM_getValue(ACCOUNTS_KEY)) ?? {}) as Record<string, AccountInfo>;
+    return Object.values(accounts).sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
+
+/**
+ * Records that an account was seen logged in, keeping its last known nickname.
+ * @param userId The user ID of the account.
+ * @param nick The account's nickname, if known.
+ */
+export async function rememberAccount(userId: string, nick: string | null): Promise<void> {
+    const accounts = ((await GM_getValue(ACCOUNTS_KEY)) ?? {}) as Record<string, AccountInfo>;
+    accounts[userId] = { userId, nick: nick ?? accounts[userId]?.nick ?? null, lastSeen: new Date().toISOString() };
+    await GM_setValue(ACCOUNTS_KEY, accounts);
+}
+
+/**
+ * Retrieves the active account's rating history from IndexedDB, or from GM storage where IndexedDB is not available.
  * @returns A promise that resolves with the rating history.
  */
 export async function getStoredData(): Promise<RatingHistory> {
-    const data = await GM_getValue(RATING_HISTORY_KEY);
-    if (!data) {
-        return { overall: [], moving: [], noMove: [], nmpz: [] };
+    if (isIndexedDbAvailable()) {
+        return { ...createEmptyHistory(), ...(await readHistory(getActiveAccount())) };
     }
-    return data as RatingHistory;
+    const data = await GM_getValue(accountKey(RATING_HISTORY_KEY));
+    return { ...createEmptyHistory(), ...data };
 }
 
 /**
- * Saves the rating history to GM storage.
+ * Saves the active account's full rating history, replacing what is stored.
  * @param data The rating history to save.
  */
 export async function setStoredData(data: RatingHistory): Promise<void> {
-    await GM_setValue(RATING_HISTORY_KEY, data);
+    if (isIndexedDbAvailable()) {
+        await writeHistory(getActiveAccount(), data);
+        return;
+    }
+    await GM_setValue(accountKey(RATING_HISTORY_KEY), data);
+}
+
+/**
+ * Adds new entries to the active account's rating history. With IndexedDB only the new entries
+ * are written, instead of the whole history.
+ * @param added The entries to add, per mode.
+ */
+export async function addStoredEntries(added: RatingHistory): Promise<void> {
+    if (isIndexedDbAvailable()) {
+        await putHistoryEntries(getActiveAccount(), added);
+        return;
+    }
+    const data = await getStoredData();
+    for (const key in added) {
+        // Like in IndexedDB, an added entry replaces the stored one of the same game.
+        const addedIds = new Set(added[key].map((e) => e.gameId));
+        data[key] = (data[key] ?? [])
+            .filter((e) => !addedIds.has(e.gameId))
+            .concat(added[key])
+            .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    }
+    await setStoredData(data);
+}
+
+/**
+ * Retrieves the active account's backfill state from GM storage, filled in with defaults.
+ * @returns A promise that resolves with the backfill state.
+ */
+export async function getBackfillState(): Promise<BackfillState> {
+    const state = await GM_getValue(accountKey(BACKFILL_STATE_KEY));
+    return { ...DEFAULT_BACKFILL_STATE, ...state };
+}
+
+/**
+ * Saves the active account's backfill state to GM storage.
+ * @param state The backfill state to save.
+ */
+export async function setBackfillState(state: BackfillState): Promise<void> {
+    await GM_setValue(accountKey(BACKFILL_STATE_KEY), state);
+}
+
+/**
+ * The shape of a game ID. GeoGuessr uses UUIDs; anything beyond letters, digits and dashes is
+ * rejected, since game IDs end up in links.
+ */
+const GAME_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Checks whether a value has the shape of a `RatingEntry`.
+ * Used to validate data that comes from older releases or from outside the script.
+ * @param value The value to check.
+ * @returns True if the value is a valid rating entry.
+ */
+export function isRatingEntry(value: any): value is RatingEntry {
+    return (
+        !!value &&
+        typeof value.gameId === 'string' &&
+        GAME_ID_PATTERN.test(value.gameId) &&
+        typeof value.rating === 'number' &&
+        Number.isFinite(value.rating) &&
+        typeof value.timestamp === 'string' &&
+        !isNaN(new Date(value.timestamp).getTime())
+    );
+}
+
+/**
+ * Retrieves the active account's per-game duel records from GM storage, keyed by game ID.
+ * Stores written with an unknown schema version are ignored rather than misread.
+ * @returns A promise that resolves with the duel records.
+ */
+export async function getStoredDuelRecords(): Promise<Record<string, DuelRecord>> {
+    const store = (await GM_getValue(accountKey(DUEL_RECORDS_KEY))) as DuelRecordStore | undefined;
+    if (!store?.records) {
+        return {};
+    }
+    if (store.version !== DUEL_RECORDS_VERSION) {
+        logger.error(`Ignoring duel records with unsupported schema version ${store.version}`);
+        return {};
+    }
+    return store.records;
+}
+
+/**
+ * Saves the active account's per-game duel records to GM storage, tagged with the current schema version.
+ * @param records The duel records to save, keyed by game ID.
+ */
+export async function setStoredDuelRecords(records: Record<string, DuelRecord>): Promise<void> {
+    const store: DuelRecordStore = { version: DUEL_RECORDS_VERSION, records };
+    await GM_setValue(accountKey(DUEL_RECORDS_KEY), store);
 }
 
 /**
  * Maps the competitive game mode from the API to a key used in the RatingHistory object.
- * This allows us to store data for different game modes in separate arrays.
+ * This allows us to store data for different game modes in separate arrays. Modes listed in
+ * `MODE_KEYS` keep their historic key, any other mode is stored under its camel-cased name
+ * (e.g. "TeamDuels" as "teamDuels"), so new ranked modes are tracked without a code change.
  * @param competitiveGameMode The competitive game mode string from the API.
- * @returns The corresponding key, or null if not found.
+ * @returns The corresponding key, or null if the mode is missing or would clash with the overall series.
+ */
+export function getModeKey(competitiveGameMode: string | null | undefined): string | null {
+    if (!competitiveGameMode || competitiveGameMode === UNRANKED_GAME_MODE) return null;
+    const key = MODE_KEYS[competitiveGameMode] ?? competitiveGameMode.charAt(0).toLowerCase() + competitiveGameMode.slice(1);
+    return key === 'overall' ? null : key;
+}
+
+/**
+ * Creates an empty rating history with a series for every mode in `DATASET_STYLES`.
+ * @returns The empty history.
+ */
+export function createEmptyHistory(): RatingHistory {
+    const history: RatingHistory = { overall: [] };
+    Object.keys(DATASET_STYLES).forEach((key) => (history[key] = []));
+    return history;
+}
+
+/**
+ * Lists the series to show for a history: every mode in `DATASET_STYLES` in its order,
+ * followed by modes that only appear in the data, sorted by key.
+ * @param data The rating history.
+ * @returns The series keys.
+ */
+export function getModeKeys(data: RatingHistory): string[] {
+    const known = Object.keys(DATASET_STYLES);
+    const extra = Object.keys(data).filter((key) => !known.includes(key) && data[key]?.length > 0);
+    return known.concat(extra.sort());
+}
+
+/**
+ * Gets the chart style of a series. Modes without an entry in `DATASET_STYLES` get a label
+ * built from their key and a fallback color that stays the same across renders.
+ * @param key The series key.
+ * @returns The style.
  */
-export function getModeKey(competitiveGameMode: string): keyof RatingHistory | null {
-    if (competitiveGameMode === 'StandardDuels') return 'moving';
-    if (competitiveGameMode === 'NoMoveDuels') return 'noMove';
-    if (competitiveGameMode === 'NmpzDuels') return 'nmpz';
-    return null;
+export function getDatasetStyle(key: string): DatasetStyle {
+    if (DATASET_STYLES[key]) return DATASET_STYLES[key];
+    const label = key.charAt(0).toUpperCase() + key.slice(1).replace(/([a-z])([A-Z])/g, '$1 $2');
+    const hash = [...key].reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 0);
+    return { label, color: FALLBACK_DATASET_COLORS[hash % FALLBACK_DATASET_COLORS.length] };
 }
@@ -1,6 +1,7 @@
 // Tampermonkey API declarations
 declare function GM_setValue(key: string, value: any): Promise<void>;
 declare function GM_getValue(key: string, defaultValue?: any): Promise<any>;
+declare function GM_deleteValue(key: string): Promise<void>;
 declare function GM_addStyle(css: string): void;
 
 interface GM_ScriptInfo {
@@ -19,6 +20,7 @@ interface GM_xmlhttpRequestResponse {
     status: number;
     response: any;
     responseText?: string;
+    responseHeaders?: string;
 }
 
 interface GM_xmlhttpRequestOptions {
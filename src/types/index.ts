@@ -2,19 +2,30 @@
 // Tampermonkey API types and Chart.js types are defined in global.d.ts
 
 // Application types
+/**
+ * How the stats strip picks its entries: the chart's visible range or a fixed rolling window.
+ * `days` and `games` use `Settings.statsTimeframe` as their size.
+ */
+export type StatsMode = 'visible' | 'days' | 'games' | 'today' | 'week';
+
 export interface Settings {
     statsTimeframe: number;
+    statsMode: StatsMode;
     backfillFullHistory: boolean;
     backfillDays: number;
     showAreaFill: boolean;
-    visibleDatasets: {
-        overall: boolean;
-        moving: boolean;
-        noMove: boolean;
-        nmpz: boolean;
-    };
+    visibleDatasets: Record<string, boolean>;
+    showDivisions: boolean;
+    showSessions: boolean;
+    // Idle time in minutes after which the next game starts a new session.
+    sessionGapMinutes: number;
+    // The minimum rating of each competitive division, keyed by division key.
+    divisionThresholds: Record<string, number>;
+    // The target rating of each mode that has a goal, keyed by mode key.
+    goals: Record<string, number>;
     autoRefreshInterval: number;
     apiRequestDelay: number;
+    maxParallelRequests: number;
     backgroundOpacity: number;
     verboseLogging: boolean;
     initialZoomDays?: number;
@@ -26,17 +37,75 @@ export interface RatingEntry {
     gameId: string;
 }
 
-export interface RatingHistory {
-    overall: RatingEntry[];
-    moving: RatingEntry[];
-    noMove: RatingEntry[];
-    nmpz: RatingEntry[];
+/**
+ * Rating entries per series. `overall` holds the overall rating, every other key one ranked mode
+ * as returned by `getModeKey`. Modes GeoGuessr adds later get their own key without code changes,
+ * so a history may hold any number of mode keys.
+ */
+export type RatingHistory = { overall: RatingEntry[] } & Record<string, RatingEntry[]>;
+
+/**
+ * A saved position in the feed, so an interrupted backfill can continue where it stopped.
+ */
+export interface BackfillCursor {
+    paginationToken: string;
+    oldestTimestamp: string;
 }
 
 export interface BackfillState {
     lastLimitDays: number;
     lastSyncTimestamp: number | null;
     ended?: boolean;
+    cursor?: BackfillCursor | null;
+}
+
+/**
+ * A GeoGuessr account that has been seen logged in on this browser.
+ * Rating history, backfill state and duel records are stored separately for each account.
+ */
+export interface AccountInfo {
+    userId: string;
+    nick: string | null;
+    lastSeen: string;
+}
+
+/**
+ * The outcome of processing the duel games of one feed page.
+ */
+export interface GameBatchResult {
+    newDataAdded: boolean;
+    foundExistingGame: boolean;
+    duelsFound: number;
+    duelsExisting: number;
+    duelsAdded: number;
+    duelFetchFailures: number;
+    requests: number;
+    cacheHits: number;
+}
+
+/**
+ * Live progress of a running sync, reported to the UI after every feed page.
+ */
+export interface SyncProgress {
+    startedAt: number;
+    pagesFetched: number;
+    duelsFound: number;
+    duelsExisting: number;
+    duelsAdded: number;
+    duelFetchFailures: number;
+    requests: number;
+    cacheHits: number;
+    oldestTimestamp: string | null;
+    cutoffTimestamp: string | null;
+    daysToCutoff: number | null;
+    etaMs: number | null;
+}
+
+export interface FeedProcessingResult {
+    newDataAdded: boolean;
+    reachedEnd: boolean;
+    pagesProcessed: number;
+    cancelled?: boolean;
 }
 
 export interface DatasetStyle {
@@ -44,6 +113,13 @@ export interface DatasetStyle {
     color: string;
 }
 
+/**
+ * A competitive division. Its rating threshold is configured in `Settings.divisionThresholds`.
+ */
+export interface Division extends DatasetStyle {
+    key: string;
+}
+
 export interface FeedEntry {
     type: number;
     payload: string | any;
@@ -55,23 +131,198 @@ export interface FeedResponse {
     paginationToken: string;
 }
 
+export interface RankedSystemProgress {
+    gameMode: string;
+    ratingBefore?: number;
+    ratingAfter?: number;
+    gameModeRatingBefore?: number;
+    gameModeRatingAfter?: number;
+}
+
 export interface DuelPlayer {
     playerId: string;
+    nick?: string;
+    rating?: number;
+    countryCode?: string;
     progressChange?: {
-        rankedSystemProgress?: {
-            gameMode: string;
-            ratingAfter?: number;
-            gameModeRatingAfter?: number;
-        };
+        rankedSystemProgress?: RankedSystemProgress;
     };
 }
 
 export interface DuelTeam {
+    id?: string;
+    name?: string;
+    health?: number;
     players: DuelPlayer[];
 }
 
+export interface DuelRound {
+    roundNumber: number;
+    startTime?: string;
+    endTime?: string;
+}
+
+export interface DuelMap {
+    name: string;
+    slug?: string;
+}
+
 export interface DuelResponse {
+    gameId?: string;
     teams: DuelTeam[];
+    rounds?: DuelRound[];
+    currentRoundNumber?: number;
+    status?: string;
+    options?: {
+        map?: DuelMap;
+        initialHealth?: number;
+        competitiveGameMode?: string;
+    };
+    result?: {
+        isDraw: boolean;
+        winningTeamId: string | null;
+        winnerStyle?: string;
+    };
+}
+
+export type DuelResult = 'win' | 'loss' | 'draw';
+
+export interface OpponentInfo {
+    playerId: string;
+    nick?: string;
+    rating: number | null;
+}
+
+/**
+ * A condensed, per-game record of a ranked duel.
+ * Stored separately from the rating history so richer analyses don't require refetching.
+ */
+export interface DuelRecord {
+    gameId: string;
+    timestamp: string;
+    gameMode: string;
+    result: DuelResult;
+    rounds: number;
+    health: {
+        player: number | null;
+        opponent: number | null;
+    };
+    opponents: OpponentInfo[];
+    ratingBefore: number | null;
+    ratingAfter: number | null;
+    gameModeRatingBefore: number | null;
+    gameModeRatingAfter: number | null;
+    map: DuelMap | null;
+}
+
+/**
+ * Aggregated results against a single opponent across all stored duels.
+ */
+export interface HeadToHead {
+    playerId: string;
+    nick?: string;
+    games: number;
+    wins: number;
+    losses: number;
+    draws: number;
+    netRating: number;
+    lastMeeting: string;
+    lastGameId: string;
+}
+
+export interface UserProfile {
+    id?: string;
+    nick: string;
+}
+
+/**
+ * The response of the own-profile endpoint.
+ */
+export interface ProfileResponse {
+    user: UserProfile;
+}
+
+/**
+ * A single HTTP request handed to a transport.
+ */
+export interface TransportRequest {
+    method: 'GET';
+    url: string;
+    timeout: number;
+}
+
+/**
+ * The raw result of a transport request. Non-2xx statuses are returned, not thrown;
+ * a transport only rejects on network errors and timeouts.
+ */
+export interface TransportResponse {
+    status: number;
+    body: any;
+    headers: Record<string, string>; // Lower-cased header names
+}
+
+/**
+ * Performs HTTP requests for the API client, e.g. through `GM_xmlhttpRequest` or from recorded fixtures.
+ */
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * The endpoint groups that get their own rate-limit budget.
+ */
+export type RateLimitBucket = 'feed' | 'duels' | 'other';
+
+/**
+ * A snapshot of one rate-limit budget, for display in the UI.
+ */
+export interface RateLimitBucketState {
+    tokens: number;
+    capacity: number;
+    concurrency: number;
+    inFlight: number;
+    blockedUntil: number | null;
+}
+
+export type RateLimitState = Record<RateLimitBucket, RateLimitBucketState>;
+
+export interface DuelRecordStore {
+    version: number;
+    records: Record<string, DuelRecord>;
+}
+
+/**
+ * A duel response kept in the local cache, with the feed time of the game and bookkeeping for eviction.
+ */
+export interface CachedDuel {
+    timestamp: string;
+    duel: DuelResponse;
+    size: number; // Approximate serialized size in bytes
+    lastUsed: number;
+}
+
+export interface DuelCacheStore {
+    version: number;
+    entries: Record<string, CachedDuel>;
+}
+
+/**
+ * A raw snapshot of everything the script persists, as read from GM storage.
+ * Values are untyped because they may have been written by any earlier release.
+ */
+export interface StorageSnapshot {
+    ratingHistory: any;
+    settings: any;
+    backfillState: any;
+    duelRecords: any;
+}
+
+/**
+ * A single step in the storage migration chain.
+ * `migrate` must be a pure function that upgrades a snapshot from `version - 1` to `version`.
+ */
+export interface Migration {
+    version: number;
+    description: string;
+    migrate: (snapshot: StorageSnapshot) => StorageSnapshot;
 }
 
 export interface ChartDataPoint {
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAdvancedAnalytics, calculateMaxDrawdown, calculateStreaks, getDeltas } from '../src/lib/analytics';
+import { RatingEntry } from '../src/types';
+
+/**
+ * Builds one entry per rating, a day apart, starting on 2025-03-01.
+ */
+function entries(...ratings: number[]): RatingEntry[] {
+    return ratings.map((rating, i) => ({
+        timestamp: new Date(Date.UTC(2025, 2, 1 + i, 12)).toISOString(),
+        rating,
+        gameId: `game-${i}`,
+    }));
+}
+
+describe('calculateAdvancedAnalytics', () => {
+    it('tracks the current and longest streaks', () => {
+        const streaks = calculateStreaks(getDeltas(entries(1000, 1010, 1020, 1030, 1020, 1010)));
+
+        expect(streaks).toEqual({ current: { type: 'loss', length: 2 }, longestWin: 3, longestLoss: 2 });
+    });
+
+    it('breaks streaks on unchanged ratings', () => {
+        expect(calculateStreaks([5, 5, 0]).current).toEqual({ type: null, length: 0 });
+    });
+
+    it('finds the largest drop from a peak and its recovery time', () => {
+        const history = entries(1000, 1050, 1020, 990, 1060, 1040);
+        const drawdown = calculateMaxDrawdown(history);
+
+        expect(drawdown).toMatchObject({ amount: 60, peak: history[1], trough: history[3] });
+        expect(drawdown!.recoveryMs).toBe(24 * 60 * 60 * 1000);
+    });
+
+    it('reports an unrecovered drawdown', () => {
+        expect(calculateMaxDrawdown(entries(1000, 1050, 1020))).toMatchObject({ amount: 30, recoveryMs: null });
+        expect(calculateMaxDrawdown(entries(1000, 1010, 1020))).toBeNull();
+    });
+
+    it('combines all metrics for a range', () => {
+        const analytics = calculateAdvancedAnalytics(entries(1000, 1010, 990));
+
+        expect(analytics).toMatchObject({ longestWinStreak: 1, longestLossStreak: 1, volatility: 15 });
+        expect(analytics!.lowest.rating).toBe(990);
+    });
+
+    it('marks the first of several equal low points', () => {
+        const history = entries(1000, 980, 1010, 980);
+
+        expect(calculateAdvancedAnalytics(history)!.lowest).toBe(history[1]);
+    });
+
+    it('needs at least two entries', () => {
+        expect(calculateAdvancedAnalytics(entries(1000))).toBeNull();
+    });
+});
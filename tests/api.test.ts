@@ -0,0 +1,360 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { extractDuelGamesFromFeed, processFeedPages, processGames, rebuildHistoryFromCache } from '../src/lib/api';
+import { loadDuelCache } from '../src/lib/cache';
+import { API_ENDPOINTS, DEFAULT_BACKFILL_STATE, DUEL_CACHE_KEY } from '../src/lib/constants';
+import { SyncController } from '../src/lib/sync';
+import { getBackfillState, getStoredData, getStoredDuelRecords, setBackfillState, setStoredData, sleep } from '../src/lib/utils';
+import { RatingHistory } from '../src/types';
+import { DUELS, FEED_PAGES, TEAM_DUEL, USER_ID, createFixtureClient, duelUrl, feedUrl } from './fixtures';
+
+/**
+ * Builds a stored history that already contains the given games.
+ */
+function historyWith(...games: { gameId: string; timestamp: string }[]): RatingHistory {
+    return {
+        overall: games.map((g) => ({ ...g, rating: 1000 })),
+        moving: [],
+        noMove: [],
+        nmpz: [],
+    };
+}
+
+const GAME_A = { gameId: 'game-a', timestamp: '2025-03-10T20:00:00.000Z' };
+const GAME_B = { gameId: 'game-b', timestamp: '2025-03-10T19:30:00.000Z' };
+const GAME_D = { gameId: 'game-d', timestamp: '2025-03-04T12:00:00.000Z' };
+
+beforeEach(() => {
+    // Malformed fixture payloads are reported through console.error
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('extractDuelGamesFromFeed', () => {
+    it('finds ranked duels nested in type 7 entries', () => {
+        const games = extractDuelGamesFromFeed(FEED_PAGES[0].entries);
+
+        expect(games.map((g) => g.payload.gameId)).toEqual(['game-a', 'game-b']);
+        expect(games[1]).toEqual({
+            time: '2025-03-10T19:30:00.000Z',
+            payload: { gameId: 'game-b', gameMode: 'Duels', competitiveGameMode: 'NmpzDuels' },
+        });
+    });
+
+    it('reads type 6 entries with string payloads', () => {
+        const games = extractDuelGamesFromFeed(FEED_PAGES[1].entries);
+
+        expect(games.map((g) => g.payload.gameId)).toEqual(['game-c', 'game-d']);
+    });
+
+    it('skips malformed payloads without dropping the rest of the page', () => {
+        const games = extractDuelGamesFromFeed(FEED_PAGES[2].entries);
+
+        expect(games.map((g) => g.payload.gameId)).toEqual(['game-e']);
+        expect(console.error).toHaveBeenCalled();
+    });
+
+    it('accepts object payloads', () => {
+        const games = extractDuelGamesFromFeed([
+            { type: 6, time: '2025-01-01T00:00:00.000Z', payload: { gameId: 'x', gameMode: 'Duels', competitiveGameMode: 'StandardDuels' } },
+        ]);
+
+        expect(games).toHaveLength(1);
+    });
+
+    it('accepts ranked games of any game mode', () => {
+        const games = extractDuelGamesFromFeed([
+            { type: 6, time: '2025-01-01T00:00:00.000Z', payload: { gameId: 't', gameMode: 'TeamDuels', competitiveGameMode: 'TeamDuels' } },
+            { type: 6, time: '2025-01-01T00:00:00.000Z', payload: { gameId: 'u', gameMode: 'TeamDuels', competitiveGameMode: 'None' } },
+        ]);
+
+        expect(games.map((g) => g.payload.gameId)).toEqual(['t']);
+    });
+});
+
+describe('processGames', () => {
+    it('tracks team duels in their own series', async () => {
+        const { client } = createFixtureClient({ [duelUrl('game-t')]: TEAM_DUEL });
+        const entries = [
+            { type: 6, time: '2025-03-11T18:00:00.000Z', payload: { gameId: 'game-t', gameMode: 'TeamDuels', competitiveGameMode: 'TeamDuels' } },
+        ];
+
+        await processGames(entries, USER_ID, client);
+
+        const data = await getStoredData();
+        expect(data.teamDuels).toEqual([{ gameId: 'game-t', timestamp: '2025-03-11T18:00:00.000Z', rating: 884 }]);
+        expect(data.overall.map((e) => e.gameId)).toEqual(['game-t']);
+        expect((await getStoredDuelRecords())['game-t'].opponents.map((o) => o.playerId)).toEqual(['opp-3', 'opp-4']);
+    });
+
+    it('stores ratings per mode and a duel record for each new game', async () => {
+        const { client } = createFixtureClient();
+
+        const result = await processGames(FEED_PAGES[0].entries, USER_ID, client);
+
+        expect(result).toMatchObject({ newDataAdded: true, foundExistingGame: false, duelsFound: 2, duelsAdded: 2 });
+        const data = await getStoredData();
+        expect(data.overall.map((e) => [e.gameId, e.rating])).toEqual([
+            ['game-b', 1001],
+            ['game-a', 1012],
+        ]);
+        expect(data.moving).toEqual([{ gameId: 'game-a', timestamp: GAME_A.timestamp, rating: 1005 }]);
+        expect(data.nmpz).toEqual([{ gameId: 'game-b', timestamp: GAME_B.timestamp, rating: 938 }]);
+        expect(data.noMove).toEqual([]);
+
+        const records = await getStoredDuelRecords();
+        expect(records['game-a']).toMatchObject({ result: 'win', rounds: 5, health: { player: 2100, opponent: 0 } });
+        expect(records['game-b']).toMatchObject({ result: 'loss', opponents: [{ playerId: 'opp-2', nick: 'Stranger', rating: 1040 }] });
+    });
+
+    it('skips games that are already stored', async () => {
+        await setStoredData(historyWith(GAME_A));
+        const { client, transport } = createFixtureClient();
+
+        const result = await processGames(FEED_PAGES[0].entries, USER_ID, client);
+
+        expect(result).toMatchObject({ foundExistingGame: true, duelsExisting: 1, duelsAdded: 1 });
+        expect(transport.requests).not.toContain(duelUrl('game-a'));
+        expect((await getStoredData()).overall.map((e) => e.gameId)).toEqual(['game-b', 'game-a']);
+    });
+
+    it('adds nothing when the same page is processed twice', async () => {
+        const { client, transport } = createFixtureClient();
+
+        await processGames(FEED_PAGES[0].entries, USER_ID, client);
+        const second = await processGames(FEED_PAGES[0].entries, USER_ID, client);
+
+        expect(second).toMatchObject({ newDataAdded: false, duelsExisting: 2, duelsAdded: 0 });
+        expect(transport.requests.filter((url) => url === duelUrl('game-a'))).toHaveLength(1);
+        expect((await getStoredData()).overall).toHaveLength(2);
+    });
+
+    it('stores a game only once when the feed lists it twice', async () => {
+        const { client } = createFixtureClient();
+        const entries = [...FEED_PAGES[1].entries, ...FEED_PAGES[1].entries];
+
+        await processGames(entries, USER_ID, client);
+
+        expect((await getStoredData()).overall.map((e) => e.gameId)).toEqual(['game-d', 'game-c']);
+    });
+
+    it('applies duels in time order when they arrive out of order', async () => {
+        const { client } = createFixtureClient({
+            [duelUrl('game-a')]: () => sleep(30).then(() => ({ status: 200, body: DUELS['game-a'], headers: {} })),
+        });
+
+        await processGames(FEED_PAGES[0].entries, USER_ID, client);
+
+        const data = await getStoredData();
+        expect(data.overall.map((e) => e.gameId)).toEqual(['game-b', 'game-a']);
+        expect(Object.keys(await getStoredDuelRecords())).toEqual(['game-a', 'game-b']);
+    });
+
+    it('looks up each unnamed opponent once per page', async () => {
+        const { client, transport } = createFixtureClient({ [duelUrl('game-x')]: DUELS['game-b'] });
+        const entries = ['game-b', 'game-x'].map((gameId, i) => ({
+            type: 6,
+            time: `2025-03-11T1${i}:00:00.000Z`,
+            payload: { gameId, gameMode: 'Duels', competitiveGameMode: 'NmpzDuels' },
+        }));
+
+        const result = await processGames(entries, USER_ID, client);
+
+        expect(transport.requests.filter((url) => url.startsWith(API_ENDPOINTS.USERS))).toHaveLength(1);
+        expect(result.requests).toBe(3);
+        const records = await getStoredDuelRecords();
+        expect(records['game-x'].opponents[0].nick).toBe('Stranger');
+        expect(records['game-b'].opponents[0].nick).toBe('Stranger');
+    });
+
+    it('counts duels that could not be fetched', async () => {
+        const { client } = createFixtureClient({ [duelUrl('game-c')]: () => ({ status: 404, body: null, headers: {} }) });
+
+        const result = await processGames(FEED_PAGES[1].entries, USER_ID, client);
+
+        expect(result).toMatchObject({ duelsAdded: 1, duelFetchFailures: 1 });
+    });
+
+    it('stores nothing once the sync was cancelled', async () => {
+        const controller = new SyncController();
+        const { client } = createFixtureClient({
+            [duelUrl('game-b')]: () => {
+                controller.cancel();
+                return { status: 200, body: DUELS['game-b'], headers: {} };
+            },
+        });
+
+        const result = await processGames(FEED_PAGES[0].entries, USER_ID, client, undefined, undefined, controller);
+
+        expect(result).toMatchObject({ newDataAdded: false, duelsAdded: 0 });
+        expect((await getStoredData()).overall).toEqual([]);
+        expect(await getStoredDuelRecords()).toEqual({});
+    });
+});
+
+describe('duel cache', () => {
+    it('reads cached duels instead of fetching them again after data was cleared', async () => {
+        await processGames(FEED_PAGES[0].entries, USER_ID, createFixtureClient().client);
+        await setStoredData(historyWith());
+        const { client, transport } = createFixtureClient();
+
+        const result = await processGames(FEED_PAGES[0].entries, USER_ID, client);
+
+        expect(result).toMatchObject({ duelsAdded: 2, cacheHits: 2, requests: 0 });
+        expect(transport.requests).toEqual([]);
+    });
+
+    it('rebuilds the history without any requests', async () => {
+        await processGames(FEED_PAGES[0].entries, USER_ID, createFixtureClient().client);
+        const before = await getStoredData();
+        await setStoredData(historyWith({ gameId: 'imported', timestamp: '2025-01-01T00:00:00.000Z' }));
+
+        expect(await rebuildHistoryFromCache(USER_ID)).toBe(2);
+
+        const after = await getStoredData();
+        expect(after.overall.map((e) => e.gameId)).toEqual(['imported', 'game-b', 'game-a']);
+        expect(after.nmpz).toEqual(before.nmpz);
+        expect((await getStoredDuelRecords())['game-b'].opponents[0].nick).toBe('Stranger');
+    });
+
+    it('is saved once per sync, not once per feed page', async () => {
+        const setValue = vi.spyOn(globalThis as any, 'GM_setValue');
+
+        await processFeedPages(USER_ID, createFixtureClient().client, {});
+
+        expect(setValue.mock.calls.filter(([key]) => key === DUEL_CACHE_KEY)).toHaveLength(1);
+        expect(Object.keys((await loadDuelCache()).entries)).toHaveLength(5);
+    });
+
+    it('keeps the duels fetched before a sync fails', async () => {
+        const onEntriesAdded = vi.fn().mockResolvedValueOnce(undefined).mockRejectedValue(new Error('boom'));
+
+        await expect(processFeedPages(USER_ID, createFixtureClient().client, { onEntriesAdded })).rejects.toThrow('boom');
+
+        expect(Object.keys((await loadDuelCache()).entries).sort()).toEqual(['game-a', 'game-b', 'game-c', 'game-d']);
+    });
+});
+
+describe('processFeedPages', () => {
+    it('pages through the whole feed on a first full backfill', async () => {
+        const { client, transport } = createFixtureClient();
+
+        const result = await processFeedPages(USER_ID, client, {});
+
+        expect(result).toMatchObject({ newDataAdded: true, reachedEnd: true, pagesProcessed: 2 });
+        expect(transport.requests.filter((url) => url.startsWith(feedUrl()))).toEqual([
+            feedUrl(),
+            feedUrl('page-2'),
+            feedUrl('page-3'),
+        ]);
+        expect((await getStoredData()).overall.map((e) => e.gameId)).toEqual([
+            'game-e',
+            'game-d',
+            'game-c',
+            'game-b',
+            'game-a',
+        ]);
+    });
+
+    it('stops at the cutoff date without reaching the end', async () => {
+        const { client, transport } = createFixtureClient();
+
+        const result = await processFeedPages(USER_ID, client, { cutoffDate: new Date('2025-03-07T00:00:00.000Z') });
+
+        expect(result).toMatchObject({ reachedEnd: false, pagesProcessed: 1 });
+        expect(transport.requests).not.toContain(feedUrl('page-3'));
+        expect((await getStoredData()).overall[0].gameId).toBe('game-d');
+    });
+
+    it('stops on the first page once the end was reached and a stored game is found', async () => {
+        await setStoredData(historyWith(GAME_A));
+        await setBackfillState({ ...DEFAULT_BACKFILL_STATE, ended: true });
+        const { client, transport } = createFixtureClient();
+
+        const result = await processFeedPages(USER_ID, client, {});
+
+        expect(result).toMatchObject({ newDataAdded: true, reachedEnd: true, pagesProcessed: 0 });
+        expect(transport.requests).not.toContain(feedUrl('page-2'));
+    });
+
+    it('stops on a later page once the end was reached and a stored game is found', async () => {
+        await setStoredData(historyWith(GAME_D));
+        await setBackfillState({ ...DEFAULT_BACKFILL_STATE, ended: true });
+        const { client, transport } = createFixtureClient();
+
+        const result = await processFeedPages(USER_ID, client, {});
+
+        expect(result).toMatchObject({ pagesProcessed: 1 });
+        expect(transport.requests).not.toContain(feedUrl('page-3'));
+        expect(transport.requests).not.toContain(duelUrl('game-d'));
+    });
+
+    it('keeps going past stored games while the end has not been reached', async () => {
+        await setStoredData(historyWith(GAME_B, GAME_A));
+        const { client, transport } = createFixtureClient();
+
+        const result = await processFeedPages(USER_ID, client, {});
+
+        expect(result).toMatchObject({ reachedEnd: true, pagesProcessed: 2 });
+        expect(transport.requests).toContain(feedUrl('page-3'));
+        expect((await getStoredData()).overall).toHaveLength(5);
+    });
+
+    it('jumps to the saved cursor once it reaches stored games', async () => {
+        await setStoredData(historyWith(GAME_D, GAME_B, GAME_A));
+        await setBackfillState({
+            ...DEFAULT_BACKFILL_STATE,
+            cursor: { paginationToken: 'page-3', oldestTimestamp: GAME_D.timestamp },
+        });
+        const { client, transport } = createFixtureClient();
+
+        const result = await processFeedPages(USER_ID, client, {});
+
+        expect(result).toMatchObject({ reachedEnd: true });
+        expect(transport.requests).not.toContain(feedUrl('page-2'));
+        expect((await getStoredData()).overall.map((e) => e.gameId)).toContain('game-e');
+    });
+
+    it('keeps the cursor before duels that failed, so the next sync retries them', async () => {
+        const failing = createFixtureClient({ [duelUrl('game-c')]: () => ({ status: 404, body: null, headers: {} }) });
+        await processFeedPages(USER_ID, failing.client, {});
+        expect((await getBackfillState()).cursor?.paginationToken).toBe('page-2');
+
+        const { client, transport } = createFixtureClient();
+        await processFeedPages(USER_ID, client, {});
+
+        expect(transport.requests).toContain(duelUrl('game-c'));
+        expect((await getStoredData()).overall.map((e) => e.gameId)).toContain('game-c');
+    });
+
+    it('falls back to normal paging when the saved cursor is rejected', async () => {
+        await setStoredData(historyWith(GAME_B, GAME_A));
+        await setBackfillState({
+            ...DEFAULT_BACKFILL_STATE,
+            cursor: { paginationToken: 'expired', oldestTimestamp: GAME_D.timestamp },
+        });
+        const { client, transport } = createFixtureClient();
+
+        const result = await processFeedPages(USER_ID, client, {});
+
+        expect(result).toMatchObject({ reachedEnd: true });
+        expect(transport.requests).toContain(feedUrl('expired'));
+        expect(transport.requests).toContain(feedUrl('page-2'));
+        expect((await getBackfillState()).cursor).not.toEqual(expect.objectContaining({ paginationToken: 'expired' }));
+    });
+
+    it('reports progress after every page', async () => {
+        const { client } = createFixtureClient();
+        const onProgress = vi.fn();
+
+        await processFeedPages(USER_ID, client, { onProgress });
+
+        expect(onProgress).toHaveBeenCalledTimes(3);
+        expect(onProgress.mock.lastCall![0]).toMatchObject({
+            pagesFetched: 3,
+            duelsFound: 5,
+            duelsAdded: 5,
+            oldestTimestamp: '2025-02-20T12:00:00.000Z',
+            cutoffTimestamp: null,
+            etaMs: null,
+        });
+    });
+});
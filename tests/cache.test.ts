@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { evictDuelCache, getCachedDuel, loadDuelCache, putCachedDuel, saveDuelCache, trimDuel } from '../src/lib/cache';
+import { DuelCacheStore } from '../src/types';
+import { DUELS } from './fixtures';
+
+describe('trimDuel', () => {
+    it('keeps the fields the script reads', () => {
+        const duel = { ...DUELS['game-a'], rounds: [{ roundNumber: 1, guesses: [{ lat: 1, lng: 2 }] }] } as any;
+
+        const trimmed = trimDuel(duel);
+
+        expect(trimmed.rounds).toEqual([{ roundNumber: 1, startTime: undefined, endTime: undefined }]);
+        expect(trimmed.teams[0].players[0].progressChange).toEqual(DUELS['game-a'].teams[0].players[0].progressChange);
+        expect(trimmed.result).toEqual(DUELS['game-a'].result);
+    });
+});
+
+describe('duel cache', () => {
+    it('survives a round trip through storage', async () => {
+        const store = await loadDuelCache();
+        putCachedDuel(store, 'game-a', '2025-03-10T20:00:00.000Z', DUELS['game-a']);
+        await saveDuelCache(store);
+
+        const loaded = await loadDuelCache();
+
+        expect(getCachedDuel(loaded, 'game-a')?.options?.competitiveGameMode).toBe('StandardDuels');
+        expect(getCachedDuel(loaded, 'game-x')).toBeNull();
+    });
+
+    it('evicts the least recently used duels first', () => {
+        const store: DuelCacheStore = { version: 1, entries: {} };
+        putCachedDuel(store, 'old', '2025-03-01T00:00:00.000Z', DUELS['game-a'], 1);
+        putCachedDuel(store, 'used', '2025-03-02T00:00:00.000Z', DUELS['game-a'], 2);
+        putCachedDuel(store, 'new', '2025-03-03T00:00:00.000Z', DUELS['game-a'], 3);
+        getCachedDuel(store, 'used', 4);
+
+        expect(evictDuelCache(store, 2)).toBe(1);
+        expect(Object.keys(store.entries).sort()).toEqual(['new', 'used']);
+    });
+
+    it('evicts down to the size limit', () => {
+        const store: DuelCacheStore = { version: 1, entries: {} };
+        putCachedDuel(store, 'a', '2025-03-01T00:00:00.000Z', DUELS['game-a'], 1);
+        putCachedDuel(store, 'b', '2025-03-02T00:00:00.000Z', DUELS['game-a'], 2);
+        const size = store.entries.a.size;
+
+        expect(evictDuelCache(store, 10, size)).toBe(1);
+        expect(Object.keys(store.entries)).toEqual(['b']);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../src/lib/constants';
+import { describeDivisionStanding, getDivisionRanges, getDivisionStanding } from '../src/lib/divisions';
+
+const RANGES = getDivisionRanges(DEFAULT_SETTINGS.divisionThresholds);
+
+describe('getDivisionRanges', () => {
+    it('chains each division up to the next threshold', () => {
+        expect(RANGES.map((r) => [r.key, r.min, r.max])).toEqual([
+            ['bronze', 0, 450],
+            ['silver', 450, 650],
+            ['gold', 650, 850],
+            ['master', 850, 1100],
+            ['champion', 1100, null],
+        ]);
+    });
+
+    it('orders divisions by threshold', () => {
+        const ranges = getDivisionRanges({ ...DEFAULT_SETTINGS.divisionThresholds, gold: 300 });
+
+        expect(ranges.map((r) => r.key)).toEqual(['bronze', 'gold', 'silver', 'master', 'champion']);
+    });
+});
+
+describe('getDivisionStanding', () => {
+    it('finds the division and the distance to the next one', () => {
+        const standing = getDivisionStanding(812, RANGES)!;
+
+        expect(standing.division.key).toBe('gold');
+        expect(standing.next?.key).toBe('master');
+        expect(standing.pointsToNext).toBe(38);
+        expect(describeDivisionStanding(standing)).toBe('Gold · 38 to Master');
+    });
+
+    it('counts a rating on a threshold to the higher division', () => {
+        expect(getDivisionStanding(850, RANGES)!.division.key).toBe('master');
+    });
+
+    it('has no next division at the top', () => {
+        const standing = getDivisionStanding(1500, RANGES)!;
+
+        expect(standing).toMatchObject({ next: null, pointsToNext: null });
+        expect(describeDivisionStanding(standing)).toBe('Champion');
+    });
+});
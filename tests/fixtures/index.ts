@@ -0,0 +1,87 @@
+import { GeoGuessrClient, createFakeTransport } from '../../src/lib/client';
+import { API_ENDPOINTS } from '../../src/lib/constants';
+import { RateLimiter } from '../../src/lib/ratelimit';
+import { DuelResponse, FeedResponse, UserProfile } from '../../src/types';
+import nmpzLoss from './duels/nmpz-loss.json';
+import nomoveWin from './duels/nomove-win.json';
+import standardWin from './duels/standard-win.json';
+import teamWin from './duels/team-win.json';
+import page1 from './feed/page-1.json';
+import page2 from './feed/page-2.json';
+import page3 from './feed/page-3.json';
+import opp2 from './users/opp-2.json';
+
+/**
+ * The ID of the signed-in user in all fixtures.
+ */
+export const USER_ID = 'user-1';
+
+/**
+ * Three recorded feed pages, newest first. Page 1 nests two ranked duels in a type 7 entry
+ * next to an unranked duel and a classic game, page 3 contains a malformed payload and is the last page.
+ */
+export const FEED_PAGES = [page1, page2, page3] as unknown as FeedResponse[];
+
+/**
+ * The recorded duel response for each ranked game in the feed.
+ */
+export const DUELS: Record<string, DuelResponse> = {
+    'game-a': standardWin,
+    'game-b': nmpzLoss,
+    'game-c': nomoveWin,
+    'game-d': standardWin,
+    'game-e': standardWin,
+};
+
+/**
+ * A recorded 2v2 team duel, which the recorded feed pages don't contain.
+ */
+export const TEAM_DUEL = teamWin as DuelResponse;
+
+/**
+ * Public profiles of opponents the duel responses don't name.
+ */
+export const USERS: Record<string, UserProfile> = {
+    'opp-2': opp2,
+};
+
+/**
+ * Builds the fake transport fixtures for the recorded feed, duels and profiles, keyed by URL.
+ * @param overrides Fixtures to add or replace, e.g. to simulate a failing duel request.
+ */
+export function createFixtures(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    const fixtures: Record<string, unknown> = {
+        [API_ENDPOINTS.FEED]: page1,
+        [`${API_ENDPOINTS.FEED}?paginationToken=page-2`]: page2,
+        [`${API_ENDPOINTS.FEED}?paginationToken=page-3`]: page3,
+    };
+    for (const [gameId, duel] of Object.entries(DUELS)) fixtures[`${API_ENDPOINTS.DUELS}/${gameId}`] = duel;
+    for (const [userId, user] of Object.entries(USERS)) fixtures[`${API_ENDPOINTS.USERS}/${userId}`] = user;
+    return { ...fixtures, ...overrides };
+}
+
+/**
+ * Creates an API client that answers from the recorded fixtures without any request delay.
+ * Each client gets its own rate limiter, so budgets don't carry over between tests.
+ * @param overrides Fixtures to add or replace.
+ * @returns The client, its rate limiter and its transport, whose `requests` lists every requested URL.
+ */
+export function createFixtureClient(overrides: Record<string, unknown> = {}) {
+    const transport = createFakeTransport(createFixtures(overrides));
+    const limiter = new RateLimiter();
+    const client = new GeoGuessrClient({ apiRequestDelay: 0, maxParallelRequests: 3 }, transport, limiter);
+    return { client, limiter, transport };
+}
+
+/**
+ * Builds the duel URL of a game, for asserting on requested URLs.
+ * @param gameId The ID of the game.
+ */
+export const duelUrl = (gameId: string) => `${API_ENDPOINTS.DUELS}/${gameId}`;
+
+/**
+ * Builds the feed URL of a page, for asserting on requested URLs.
+ * @param paginationToken The token of the page, or undefined for the first page.
+ */
+export const feedUrl = (paginationToken?: string) =>
+    paginationToken ? `${API_ENDPOINTS.FEED}?paginationToken=${paginationToken}` : API_ENDPOINTS.FEED;
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTrend, getGoalProgress, getNewlyReachedGoals } from '../src/lib/goals';
+import { RatingEntry, RatingHistory } from '../src/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 2, 1, 12);
+
+/**
+ * Builds one entry per [days since 2025-03-01 12:00 UTC, rating] pair.
+ */
+function entries(...games: [number, number][]): RatingEntry[] {
+    return games.map(([days, rating], i) => ({
+        timestamp: new Date(START + days * DAY).toISOString(),
+        rating,
+        gameId: `game-${i}`,
+    }));
+}
+
+describe('calculateTrend', () => {
+    it('fits the rating change per day', () => {
+        expect(calculateTrend(entries([0, 1000], [1, 1010], [2, 1020]))).toBeCloseTo(10);
+        expect(calculateTrend(entries([0, 1000], [1, 1020], [2, 1000], [3, 1020]))).toBeCloseTo(4);
+    });
+
+    it('needs games at different times', () => {
+        expect(calculateTrend(entries([0, 1000]))).toBeNull();
+        expect(calculateTrend(entries([0, 1000], [0, 1010]))).toBeNull();
+    });
+});
+
+describe('getGoalProgress', () => {
+    it('projects the goal along the trend', () => {
+        const games = entries([0, 1000], [1, 1010], [2, 1020]);
+
+        const progress = getGoalProgress(games, 1100, games);
+
+        expect(progress).toMatchObject({ target: 1100, current: 1020, remaining: 80, reached: false });
+        expect(progress!.projectedAt).toBeCloseTo(START + 10 * DAY, -3);
+    });
+
+    it('has no projection when the trend points away from the goal', () => {
+        const games = entries([0, 1020], [1, 1010], [2, 1000]);
+
+        expect(getGoalProgress(games, 1100, games)?.projectedAt).toBeNull();
+    });
+
+    it('reports a reached goal', () => {
+        const games = entries([0, 1000], [1, 1110]);
+
+        expect(getGoalProgress(games, 1100, games)).toMatchObject({ remaining: 0, reached: true, projectedAt: null });
+    });
+
+    it('returns null without games', () => {
+        expect(getGoalProgress([], 1100, [])).toBeNull();
+    });
+});
+
+describe('getNewlyReachedGoals', () => {
+    const history = (moving: RatingEntry[]): RatingHistory => ({ overall: [], moving });
+
+    it('reports a goal crossed by the latest games', () => {
+        const games = entries([0, 1090], [1, 1095], [2, 1104]);
+
+        expect(getNewlyReachedGoals(history(games), history(games.slice(1)), { moving: 1100 })).toEqual(['moving']);
+    });
+
+    it('ignores goals that were already reached before', () => {
+        const games = entries([0, 1101], [1, 1110]);
+
+        expect(getNewlyReachedGoals(history(games), history(games.slice(1)), { moving: 1100 })).toEqual([]);
+    });
+
+    it('ignores backfilled games and the first sync', () => {
+        const games = entries([0, 1090], [1, 1104]);
+
+        expect(getNewlyReachedGoals(history(games), history(games.slice(0, 1)), { moving: 1100 })).toEqual([]);
+        expect(getNewlyReachedGoals(history(games), history(games), { moving: 1100 })).toEqual([]);
+    });
+});
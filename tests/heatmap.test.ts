@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { buildHeatmap, formatHour, getHeatmapScale } from '../src/lib/heatmap';
+import { RatingEntry } from '../src/types';
+
+/**
+ * Builds one entry per [local date, rating] pair. 2025-03-03 is a Monday.
+ */
+function entries(...games: [Date, number][]): RatingEntry[] {
+    return games.map(([date, rating], i) => ({ timestamp: date.toISOString(), rating, gameId: `game-${i}` }));
+}
+
+describe('buildHeatmap', () => {
+    it('averages the changes per local weekday and hour', () => {
+        const games = entries(
+            [new Date(2025, 2, 3, 22, 50), 1000],
+            [new Date(2025, 2, 3, 23, 5), 1010],
+            [new Date(2025, 2, 3, 23, 20), 1004],
+            [new Date(2025, 2, 9, 0, 15), 990]
+        );
+
+        const grid = buildHeatmap(games);
+
+        expect(grid).toHaveLength(7);
+        expect(grid[0]).toHaveLength(24);
+        expect(grid[0][23]).toEqual({ games: 2, totalDelta: 4, avgDelta: 2 });
+        expect(grid[6][0]).toEqual({ games: 1, totalDelta: -14, avgDelta: -14 });
+    });
+
+    it('uses the first entry only as the baseline', () => {
+        const grid = buildHeatmap(entries([new Date(2025, 2, 3, 22, 50), 1000]));
+
+        expect(grid[0][22]).toEqual({ games: 0, totalDelta: 0, avgDelta: null });
+    });
+});
+
+describe('getHeatmapScale', () => {
+    it('finds the largest absolute average and game count', () => {
+        const grid = buildHeatmap(entries(
+            [new Date(2025, 2, 4, 10, 0), 1000],
+            [new Date(2025, 2, 4, 10, 10), 1020],
+            [new Date(2025, 2, 4, 11, 0), 990],
+            [new Date(2025, 2, 4, 11, 10), 985]
+        ));
+
+        expect(getHeatmapScale(grid)).toEqual({ maxAbsDelta: 20, maxGames: 2 });
+    });
+
+    it('is zero for an empty heatmap', () => {
+        expect(getHeatmapScale(buildHeatmap([]))).toEqual({ maxAbsDelta: 0, maxGames: 0 });
+    });
+});
+
+describe('formatHour', () => {
+    it('pads single-digit hours', () => {
+        expect(formatHour(7)).toBe('07');
+        expect(formatHour(23)).toBe('23');
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { historyToCsv, historyToJson } from '../src/lib/export';
+import { mergeHistory, parseBackup } from '../src/lib/import';
+import { CURRENT_SCHEMA_VERSION } from '../src/lib/migrations';
+import { RatingHistory } from '../src/types';
+
+const HISTORY: RatingHistory = {
+    overall: [
+        { timestamp: '2025-03-01T12:00:00.000Z', rating: 1000, gameId: 'a' },
+        { timestamp: '2025-03-02T12:00:00.000Z', rating: 1010, gameId: 'b' },
+    ],
+    moving: [{ timestamp: '2025-03-02T12:00:00.000Z', rating: 990, gameId: 'b' }],
+};
+
+/**
+ * Builds a JSON export document around a rating history.
+ */
+function exportDocument(ratingHistory: unknown, overrides: Record<string, unknown> = {}): string {
+    return JSON.stringify({ app: 'guesslytics', schemaVersion: CURRENT_SCHEMA_VERSION, ratingHistory, ...overrides });
+}
+
+describe('parseBackup', () => {
+    it('reads JSON and CSV exports', () => {
+        expect(parseBackup(historyToJson(HISTORY))).toEqual({ entries: HISTORY, invalid: 0 });
+        expect(parseBackup(historyToCsv(HISTORY))).toEqual({ entries: HISTORY, invalid: 0 });
+    });
+
+    it('reads a bare rating history', () => {
+        expect(parseBackup(JSON.stringify(HISTORY))).toEqual({ entries: HISTORY, invalid: 0 });
+    });
+
+    it('rejects documents from a newer schema version', () => {
+        expect(() => parseBackup(exportDocument(HISTORY, { schemaVersion: CURRENT_SCHEMA_VERSION + 1 }))).toThrow(/newer/);
+    });
+
+    it('rejects documents that are not Guesslytics exports', () => {
+        expect(() => parseBackup(exportDocument(HISTORY, { app: 'other' }))).toThrow(/Unrecognized/);
+        expect(() => parseBackup(exportDocument(HISTORY, { schemaVersion: undefined }))).toThrow(/Unrecognized/);
+        expect(() => parseBackup(JSON.stringify({ ratingHistory: HISTORY }))).toThrow(/Unrecognized/);
+        expect(() => parseBackup(JSON.stringify({ moving: HISTORY.moving }))).toThrow(/Unrecognized/);
+        expect(() => parseBackup('date,rating\n2025-03-01,1000')).toThrow(/Unrecognized/);
+    });
+
+    it('drops series with malformed keys', () => {
+        const content = `{"app":"guesslytics","schemaVersion":${CURRENT_SCHEMA_VERSION},"ratingHistory":{` +
+            `"overall":[],"__proto__":[{"gameId":"x"}],"constructor":[{}],"not a mode":[{},{}],"teamDuels":[]}}`;
+
+        const parsed = parseBackup(content);
+
+        expect(Object.keys(parsed.entries)).toEqual(['overall', 'teamDuels']);
+        expect(Object.getPrototypeOf(parsed.entries)).toBe(Object.prototype);
+        expect(parsed.invalid).toBe(4);
+    });
+
+    it('counts CSV rows without a valid mode as invalid', () => {
+        const csv = 'timestamp,mode,rating,delta,gameId\n' +
+            '2025-03-01T12:00:00.000Z,,1000,,a\n' +
+            '2025-03-01T12:00:00.000Z,__proto__,1000,,a\n' +
+            '2025-03-01T12:00:00.000Z,overall,1000,,a';
+
+        expect(parseBackup(csv)).toEqual({ entries: { overall: [HISTORY.overall[0]] }, invalid: 2 });
+    });
+});
+
+describe('mergeHistory', () => {
+    it('adds new entries in time order and skips known games', () => {
+        const existing: RatingHistory = { overall: [HISTORY.overall[1]] };
+
+        const { merged, result } = mergeHistory(existing, { entries: HISTORY, invalid: 0 });
+
+        expect(merged).toEqual(HISTORY);
+        expect(result).toEqual({ added: 2, skipped: 1, invalid: 0 });
+    });
+
+    it('drops malformed entries and counts them with the invalid rows', () => {
+        const entries = {
+            overall: [
+                { timestamp: 'not a date', rating: 1000, gameId: 'x' },
+                { timestamp: '2025-03-01T12:00:00.000Z', rating: NaN, gameId: 'y' },
+                { timestamp: '2025-03-01T12:00:00.000Z', rating: 1000 },
+                HISTORY.overall[0],
+            ],
+        };
+
+        const { merged, result } = mergeHistory({ overall: [] }, { entries, invalid: 2 });
+
+        expect(merged).toEqual({ overall: [HISTORY.overall[0]] });
+        expect(result).toEqual({ added: 1, skipped: 5, invalid: 5 });
+    });
+
+    it('drops entries whose game ID is not a plain ID', () => {
+        const csv = 'timestamp,mode,rating,delta,gameId\n' +
+            '2025-03-01T12:00:00.000Z,overall,1000,,"x"" onmouseover=""alert(1)"\n' +
+            '2025-03-01T12:00:00.000Z,overall,1000,,\n' +
+            '2025-03-02T12:00:00.000Z,overall,1010,,3c0f5e2a-8a5b-4e6f-9c1d-2b7a4e9f0d13';
+
+        const { merged, result } = mergeHistory({ overall: [] }, parseBackup(csv));
+
+        expect(merged.overall.map((e) => e.gameId)).toEqual(['3c0f5e2a-8a5b-4e6f-9c1d-2b7a4e9f0d13']);
+        expect(result).toEqual({ added: 1, skipped: 2, invalid: 2 });
+    });
+});
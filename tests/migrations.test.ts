@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { DUEL_RECORDS_KEY, SCHEMA_VERSION_KEY } from '../src/lib/constants';
+import { CURRENT_SCHEMA_VERSION, applyMigrations, assignLegacyDataToAccount, runAccountMigrations } from '../src/lib/migrations';
+import { accountKey, getStoredDuelRecords } from '../src/lib/utils';
+import { Migration, StorageSnapshot } from '../src/types';
+import { USER_ID } from './fixtures';
+
+const LEGACY_SNAPSHOT: StorageSnapshot = {
+    ratingHistory: {
+        overall: [
+            { timestamp: '2025-03-02T12:00:00.000Z', rating: 1010, gameId: 'b' },
+            { timestamp: '2025-03-01T12:00:00.000Z', rating: 1000, gameId: 'a' },
+            { timestamp: 'not a date', rating: 'broken' },
+        ],
+    },
+    settings: { backfillDays: 60, visibleDatasets: { nmpz: false } },
+    backfillState: undefined,
+    duelRecords: {
+        version: 1,
+        records: { a: { gameId: 'a', opponent: { playerId: 'opp-1', nick: 'Rival' } } },
+    },
+};
+
+describe('applyMigrations', () => {
+    it('upgrades unversioned data to the current schema', () => {
+        const migrated = applyMigrations(LEGACY_SNAPSHOT, 0);
+
+        expect(migrated.ratingHistory.overall.map((e: any) => e.gameId)).toEqual(['a', 'b']);
+        expect(migrated.ratingHistory.nmpz).toEqual([]);
+        expect(migrated.settings).toEqual({
+            statsTimeframe: 7,
+            backfillFullHistory: false,
+            backfillDays: 60,
+            showAreaFill: true,
+            visibleDatasets: { overall: true, moving: true, noMove: true, nmpz: false },
+            autoRefreshInterval: 60,
+            apiRequestDelay: 250,
+            backgroundOpacity: 15,
+            initialZoomDays: 7,
+            verboseLogging: false,
+        });
+        expect(migrated.backfillState).toEqual({ lastLimitDays: 0, lastSyncTimestamp: null, ended: false });
+        expect(migrated.duelRecords).toEqual({
+            version: 2,
+            records: { a: { gameId: 'a', opponents: [{ playerId: 'opp-1', nick: 'Rival', rating: null }] } },
+        });
+        expect(CURRENT_SCHEMA_VERSION).toBe(2);
+    });
+
+    it('only applies steps newer than the stored version, in order', () => {
+        const applied: number[] = [];
+        const migrations: Migration[] = [3, 1, 2].map((version) => ({
+            version,
+            description: `Step ${version}`,
+            migrate: (snapshot) => {
+                applied.push(version);
+                return snapshot;
+            },
+        }));
+
+        applyMigrations(LEGACY_SNAPSHOT, 1, migrations);
+
+        expect(applied).toEqual([2, 3]);
+    });
+});
+
+describe('runAccountMigrations', () => {
+    it('upgrades the namespaced data of an account and records its version', async () => {
+        await GM_setValue(accountKey(SCHEMA_VERSION_KEY), 1);
+        await GM_setValue(accountKey(DUEL_RECORDS_KEY), LEGACY_SNAPSHOT.duelRecords);
+
+        expect(await runAccountMigrations(USER_ID)).toBe(CURRENT_SCHEMA_VERSION);
+        expect(await runAccountMigrations(USER_ID)).toBe(CURRENT_SCHEMA_VERSION);
+
+        expect(await GM_getValue(accountKey(SCHEMA_VERSION_KEY))).toBe(CURRENT_SCHEMA_VERSION);
+        expect((await getStoredDuelRecords()).a.opponents).toEqual([{ playerId: 'opp-1', nick: 'Rival', rating: null }]);
+    });
+
+    it('retries steps that failed on data from before multi-account support', async () => {
+        await GM_setValue(SCHEMA_VERSION_KEY, 1);
+        await GM_setValue(DUEL_RECORDS_KEY, LEGACY_SNAPSHOT.duelRecords);
+
+        await assignLegacyDataToAccount(USER_ID);
+        expect(await GM_getValue(accountKey(SCHEMA_VERSION_KEY))).toBe(1);
+        await runAccountMigrations(USER_ID);
+
+        expect((await getStoredDuelRecords()).a.opponents).toEqual([{ playerId: 'opp-1', nick: 'Rival', rating: null }]);
+    });
+
+    it('leaves accounts stored without a version alone', async () => {
+        const records = { version: 2, records: {} };
+        await GM_setValue(accountKey(DUEL_RECORDS_KEY), records);
+
+        expect(await runAccountMigrations(USER_ID)).toBe(2);
+        expect(await GM_getValue(accountKey(DUEL_RECORDS_KEY))).toEqual(records);
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { buildHeadToHead } from '../src/lib/opponents';
+import { DuelRecord, DuelResult, OpponentInfo } from '../src/types';
+
+/**
+ * Builds a duel record played on the given day of March 2025.
+ */
+function record(
+    gameId: string,
+    day: number,
+    result: DuelResult,
+    opponents: OpponentInfo[],
+    ratings: [number | null, number | null] = [1000, 1000]
+): DuelRecord {
+    return {
+        gameId,
+        timestamp: new Date(Date.UTC(2025, 2, day, 12)).toISOString(),
+        gameMode: 'StandardDuels',
+        result,
+        rounds: 5,
+        health: { player: null, opponent: null },
+        opponents,
+        ratingBefore: ratings[0],
+        ratingAfter: ratings[1],
+        gameModeRatingBefore: null,
+        gameModeRatingAfter: null,
+        map: null,
+    };
+}
+
+const rival = (nick?: string): OpponentInfo => ({ playerId: 'rival', nick, rating: 1000 });
+const other = (nick?: string): OpponentInfo => ({ playerId: 'other', nick, rating: 900 });
+
+describe('buildHeadToHead', () => {
+    it('aggregates the record and net rating per opponent', () => {
+        const h2h = buildHeadToHead([
+            record('g1', 1, 'win', [rival('Rival')], [1000, 1012]),
+            record('g2', 2, 'loss', [rival('Rival')], [1012, 1001]),
+            record('g3', 3, 'draw', [rival('Rival')], [null, 1001]),
+        ]);
+
+        expect(h2h).toEqual([{
+            playerId: 'rival',
+            nick: 'Rival',
+            games: 3,
+            wins: 1,
+            losses: 1,
+            draws: 1,
+            netRating: 1,
+            lastMeeting: '2025-03-03T12:00:00.000Z',
+            lastGameId: 'g3',
+        }]);
+    });
+
+    it('counts a team duel for every opponent', () => {
+        const h2h = buildHeadToHead([record('g1', 1, 'win', [rival('Rival'), other('Other')], [1000, 1010])]);
+
+        expect(h2h.map((h) => [h.playerId, h.wins, h.netRating])).toEqual([['rival', 1, 10], ['other', 1, 10]]);
+    });
+
+    it('keeps the latest known nick and leaves unknown nicks empty', () => {
+        const h2h = buildHeadToHead([
+            record('g3', 3, 'win', [rival()]),
+            record('g1', 1, 'win', [rival('Old Name'), other()]),
+            record('g2', 2, 'win', [rival('New Name')]),
+        ]);
+
+        expect(h2h.find((h) => h.playerId === 'rival')!.nick).toBe('New Name');
+        expect(h2h.find((h) => h.playerId === 'other')!.nick).toBeUndefined();
+    });
+
+    it('sorts by games played, then by the most recent meeting', () => {
+        const h2h = buildHeadToHead([
+            record('g1', 1, 'win', [other()]),
+            record('g2', 2, 'win', [{ playerId: 'recent', rating: null }]),
+            record('g3', 3, 'win', [rival()]),
+            record('g4', 4, 'loss', [rival()]),
+        ]);
+
+        expect(h2h.map((h) => h.playerId)).toEqual(['rival', 'recent', 'other']);
+    });
+
+    it('returns nothing without records', () => {
+        expect(buildHeadToHead([])).toEqual([]);
+    });
+});
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter, parseRateLimitHeaders, parseRetryAfter } from '../src/lib/ratelimit';
+import { createFixtureClient, duelUrl } from './fixtures';
+
+const NOW = Date.UTC(2025, 2, 10, 12);
+
+/**
+ * Creates a limiter with a clock that only moves when the test says so.
+ */
+function createLimiter() {
+    const clock = { now: NOW };
+    const limiter = new RateLimiter(() => clock.now);
+    return { limiter, clock };
+}
+
+describe('parseRetryAfter', () => {
+    it('reads seconds and HTTP dates', () => {
+        expect(parseRetryAfter('30', NOW)).toBe(30000);
+        expect(parseRetryAfter(new Date(NOW + 5000).toUTCString(), NOW)).toBe(5000);
+    });
+
+    it('ignores missing and invalid values', () => {
+        expect(parseRetryAfter(undefined, NOW)).toBeNull();
+        expect(parseRetryAfter('soon', NOW)).toBeNull();
+    });
+});
+
+describe('parseRateLimitHeaders', () => {
+    it('accepts the reset as seconds from now or as a Unix timestamp', () => {
+        expect(parseRateLimitHeaders({ 'x-ratelimit-remaining': '3', 'x-ratelimit-reset': '10' }, NOW)).toEqual({
+            remaining: 3,
+            resetAt: NOW + 10000,
+        });
+        expect(parseRateLimitHeaders({ 'x-ratelimit-reset': String(NOW / 1000 + 60) }, NOW)).toEqual({
+            remaining: null,
+            resetAt: NOW + 60000,
+        });
+    });
+});
+
+describe('RateLimiter', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('keeps separate budgets per bucket', async () => {
+        const { limiter } = createLimiter();
+        limiter.setInterval(1000);
+
+        for (let i = 0; i < 5; i++) {
+            await limiter.acquire('duels');
+            limiter.release('duels', { status: 200, headers: {} });
+        }
+
+        expect(limiter.getState().duels.tokens).toBe(0);
+        expect(limiter.getState().feed.tokens).toBe(5);
+    });
+
+    it('blocks a bucket for the Retry-After time and halves its concurrency', async () => {
+        const { limiter } = createLimiter();
+        for (let i = 0; i < 20; i++) {
+            await limiter.acquire('duels');
+            limiter.release('duels', { status: 200, headers: {} });
+        }
+        expect(limiter.getState().duels.concurrency).toBe(3);
+
+        await limiter.acquire('duels');
+        limiter.release('duels', { status: 429, headers: { 'retry-after': '12' } });
+
+        expect(limiter.getState().duels).toMatchObject({ blockedUntil: NOW + 12000, concurrency: 1 });
+        expect(limiter.getState().feed.blockedUntil).toBeNull();
+    });
+
+    it('blocks a bucket until the reset once the server reports no remaining requests', async () => {
+        const { limiter } = createLimiter();
+
+        await limiter.acquire('feed');
+        limiter.release('feed', { status: 200, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '30' } });
+
+        expect(limiter.getState().feed.blockedUntil).toBe(NOW + 30000);
+    });
+
+    it('stops waiting when the request is cancelled', async () => {
+        const { limiter } = createLimiter();
+        const abortController = new AbortController();
+        await limiter.acquire('feed');
+        limiter.release('feed', { status: 429, headers: { 'retry-after': '60' } });
+
+        const acquired = limiter.acquire('feed', abortController.signal);
+        abortController.abort();
+
+        expect(await acquired).toBe(false);
+    });
+
+    it('retries a rate-limited request once the bucket is unblocked', async () => {
+        let attempts = 0;
+        const { client, transport } = createFixtureClient({
+            [duelUrl('game-x')]: () =>
+                ++attempts === 1
+                    ? { status: 429, body: null, headers: { 'retry-after': '0' } }
+                    : { status: 200, body: { teams: [] }, headers: {} },
+        });
+
+        expect(await client.getDuel('game-x')).toEqual({ teams: [] });
+        expect(transport.requests).toEqual([duelUrl('game-x'), duelUrl('game-x')]);
+    });
+
+    it('backs off after network errors, even if their message mentions 429', async () => {
+        vi.useFakeTimers();
+        let attempts = 0;
+        const { client, transport } = createFixtureClient({
+            [duelUrl('game-x')]: () => {
+                if (++attempts === 1) throw new Error('Network Error: connection reset on port 429');
+                return { status: 200, body: { teams: [] }, headers: {} };
+            },
+        });
+
+        const duel = client.getDuel('game-x');
+        await vi.advanceTimersByTimeAsync(999);
+        expect(transport.requests).toHaveLength(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(await duel).toEqual({ teams: [] });
+        expect(transport.requests).toHaveLength(2);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { buildSessionSummaries, groupSessions, summarizeSession } from '../src/lib/sessions';
+import { RatingEntry } from '../src/types';
+
+const GAP = 30 * 60 * 1000;
+
+/**
+ * Builds one entry per [minutes since 2025-03-01 12:00 UTC, rating] pair.
+ */
+function entries(...games: [number, number][]): RatingEntry[] {
+    return games.map(([minutes, rating], i) => ({
+        timestamp: new Date(Date.UTC(2025, 2, 1, 12, minutes)).toISOString(),
+        rating,
+        gameId: `game-${i}`,
+    }));
+}
+
+describe('groupSessions', () => {
+    it('splits wherever the idle gap exceeds the limit', () => {
+        const games = entries([0, 1000], [10, 1010], [40, 1005], [120, 1020], [150, 1030]);
+
+        const sessions = groupSessions(games, GAP);
+
+        expect(sessions.map((s) => s.map((e) => e.gameId))).toEqual([
+            ['game-0', 'game-1', 'game-2'],
+            ['game-3', 'game-4'],
+        ]);
+    });
+
+    it('returns no sessions without games', () => {
+        expect(groupSessions([], GAP)).toEqual([]);
+    });
+});
+
+describe('summarizeSession', () => {
+    it('measures the first game against the game before the session', () => {
+        const [before, ...session] = entries([0, 1000], [120, 1012], [130, 1004], [140, 1030]);
+
+        const summary = summarizeSession(session, before);
+
+        expect(summary).toMatchObject({ games: 3, wins: 2, losses: 1, startRating: 1000, endRating: 1030, netChange: 30 });
+        expect(summary.bestGame).toMatchObject({ gameId: 'game-3', delta: 26 });
+        expect(summary.worstGame).toMatchObject({ gameId: 'game-2', delta: -8 });
+    });
+
+    it('leaves the first game out of W/L when nothing was played before', () => {
+        const summary = summarizeSession(entries([0, 1000], [10, 1010]));
+
+        expect(summary).toMatchObject({ games: 2, wins: 1, losses: 0, startRating: 1000, netChange: 10, worstGame: null });
+    });
+});
+
+describe('buildSessionSummaries', () => {
+    it('chains each session to the end of the previous one', () => {
+        const summaries = buildSessionSummaries(entries([0, 1000], [10, 1010], [120, 990]), GAP);
+
+        expect(summaries.map((s) => [s.startRating, s.endRating, s.netChange])).toEqual([
+            [1000, 1010, 10],
+            [1010, 990, -20],
+        ]);
+    });
+});
@@ -0,0 +1,37 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach } from 'vitest';
+import { closeHistoryDb } from '../src/lib/storage';
+import { setActiveAccount } from '../src/lib/utils';
+import { USER_ID } from './fixtures';
+
+/**
+ * In-memory replacement for Tampermonkey's value storage.
+ * Values are cloned on write and read, like the real storage, so tests can't mutate stored data by reference.
+ */
+const gmStorage = new Map<string, any>();
+
+Object.assign(globalThis, {
+    GM_getValue: async (key: string, defaultValue?: any) =>
+        gmStorage.has(key) ? structuredClone(gmStorage.get(key)) : defaultValue,
+    GM_setValue: async (key: string, value: any) => {
+        gmStorage.set(key, structuredClone(value));
+    },
+    GM_deleteValue: async (key: string) => {
+        gmStorage.delete(key);
+    },
+    GM_addStyle: () => {},
+    GM_xmlhttpRequest: () => {
+        throw new Error('Tests must not hit the network. Pass a client with a fake transport instead.');
+    },
+    GM_info: {
+        script: { version: 'test', name: 'Guesslytics', author: '', description: '', namespace: '' },
+    },
+});
+
+beforeEach(() => {
+    gmStorage.clear();
+    closeHistoryDb();
+    globalThis.indexedDB = new IDBFactory();
+    setActiveAccount(USER_ID);
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStats, selectStatsWindow } from '../src/lib/stats';
+import { RatingEntry } from '../src/types';
+
+/**
+ * Builds one entry per rating, a day apart, starting on 2025-03-01.
+ */
+function entries(...ratings: number[]): RatingEntry[] {
+    return ratings.map((rating, i) => ({
+        timestamp: new Date(Date.UTC(2025, 2, 1 + i, 12)).toISOString(),
+        rating,
+        gameId: `game-${i}`,
+    }));
+}
+
+describe('calculateStats', () => {
+    it('needs at least two entries', () => {
+        expect(calculateStats([])).toBeNull();
+        expect(calculateStats(entries(1000))).toBeNull();
+    });
+
+    it('counts each change between entries as a game', () => {
+        const stats = calculateStats(entries(1000, 1010, 1004, 1004, 1020));
+
+        expect(stats).toEqual({
+            games: 4,
+            lastChange: 16,
+            avgNet: 5,
+            wins: 2,
+            losses: 1,
+            winRate: 67,
+            avgGain: 13,
+            avgLoss: -6,
+            peakRating: 1020,
+        });
+    });
+
+    it('reports no win rate without decided games', () => {
+        expect(calculateStats(entries(1000, 1000))).toMatchObject({ winRate: 0, avgGain: 0, avgLoss: 0 });
+    });
+});
+
+describe('selectStatsWindow', () => {
+    const history = entries(1000, 1010, 1020, 1030, 1040);
+    const visibleRange = { min: 0, max: 0 };
+
+    it('uses the visible chart range in visible mode', () => {
+        const range = {
+            min: new Date(history[1].timestamp).getTime(),
+            max: new Date(history[3].timestamp).getTime(),
+        };
+
+        expect(selectStatsWindow(history, 'visible', 7, range).map((e) => e.rating)).toEqual([1010, 1020, 1030]);
+    });
+
+    it('includes a baseline entry before the last N games', () => {
+        expect(selectStatsWindow(history, 'games', 2, visibleRange).map((e) => e.rating)).toEqual([1020, 1030, 1040]);
+    });
+
+    it('includes a baseline entry before the last N days', () => {
+        const now = new Date(Date.UTC(2025, 2, 5, 18));
+
+        expect(selectStatsWindow(history, 'days', 2, visibleRange, now).map((e) => e.rating)).toEqual([1020, 1030, 1040]);
+    });
+
+    it('returns nothing when no game falls into the window', () => {
+        const now = new Date(Date.UTC(2025, 3, 1));
+
+        expect(selectStatsWindow(history, 'today', 7, visibleRange, now)).toEqual([]);
+    });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { BACKFILL_STATE_KEY, HISTORY_DB_NAME, LEGACY_DATA_OWNER_KEY, RATING_HISTORY_KEY } from '../src/lib/constants';
+import { assignLegacyDataToAccount, moveHistoryToIndexedDb } from '../src/lib/migrations';
+import { closeHistoryDb } from '../src/lib/storage';
+import {
+    accountKey,
+    addStoredEntries,
+    getBackfillState,
+    getStoredData,
+    setActiveAccount,
+    setBackfillState,
+    setStoredData,
+} from '../src/lib/utils';
+import { RatingHistory } from '../src/types';
+import { USER_ID } from './fixtures';
+
+const empty = (): RatingHistory => ({ overall: [], moving: [], noMove: [], nmpz: [] });
+
+/**
+ * Creates the shared history database written by releases before multi-account support.
+ */
+function createLegacyDb(rows: object[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(HISTORY_DB_NAME, 1);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore('ratings', { keyPath: ['mode', 'gameId'] });
+            store.createIndex('timestamp', 'time');
+            store.createIndex('mode_timestamp', ['mode', 'time']);
+            rows.forEach((row) => store.put(row));
+        };
+        request.onsuccess = () => {
+            request.result.close();
+            resolve();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+describe('IndexedDB rating history', () => {
+    it('returns entries sorted by time within each mode', async () => {
+        await setStoredData({
+            ...empty(),
+            overall: [
+                { timestamp: '2025-03-02T12:00:00.000Z', rating: 1010, gameId: 'b' },
+                { timestamp: '2025-03-01T12:00:00.000Z', rating: 1000, gameId: 'a' },
+            ],
+            nmpz: [{ timestamp: '2025-03-01T13:00:00.000Z', rating: 900, gameId: 'a' }],
+        });
+        closeHistoryDb();
+
+        const data = await getStoredData();
+
+        expect(data.overall.map((e) => e.gameId)).toEqual(['a', 'b']);
+        expect(data.nmpz).toEqual([{ timestamp: '2025-03-01T13:00:00.000Z', rating: 900, gameId: 'a' }]);
+        expect(data.moving).toEqual([]);
+    });
+
+    it('replaces entries for games that are added again', async () => {
+        await addStoredEntries({ ...empty(), overall: [{ timestamp: '2025-03-01T12:00:00.000Z', rating: 1000, gameId: 'a' }] });
+        await addStoredEntries({
+            ...empty(),
+            overall: [
+                { timestamp: '2025-03-01T12:00:00.000Z', rating: 1005, gameId: 'a' },
+                { timestamp: '2025-02-28T12:00:00.000Z', rating: 990, gameId: 'z' },
+            ],
+        });
+        const cached = await getStoredData();
+        closeHistoryDb();
+
+        const reloaded = await getStoredData();
+
+        expect(cached.overall.map((e) => [e.gameId, e.rating])).toEqual([['z', 990], ['a', 1005]]);
+        expect(reloaded).toEqual(cached);
+    });
+
+    it('does not let callers modify the cached history', async () => {
+        await setStoredData({ ...empty(), overall: [{ timestamp: '2025-03-01T12:00:00.000Z', rating: 1000, gameId: 'a' }] });
+
+        (await getStoredData()).overall.push({ timestamp: '2025-03-02T12:00:00.000Z', rating: 1010, gameId: 'b' });
+
+        expect((await getStoredData()).overall).toHaveLength(1);
+    });
+});
+
+describe('GM storage rating history', () => {
+    it('replaces entries for games that are added again, like IndexedDB', async () => {
+        (globalThis as any).indexedDB = undefined;
+        await addStoredEntries({ ...empty(), overall: [{ timestamp: '2025-03-01T12:00:00.000Z', rating: 1000, gameId: 'a' }] });
+        await addStoredEntries({
+            ...empty(),
+            overall: [
+                { timestamp: '2025-03-01T12:00:00.000Z', rating: 1005, gameId: 'a' },
+                { timestamp: '2025-02-28T12:00:00.000Z', rating: 990, gameId: 'z' },
+            ],
+        });
+
+        expect((await getStoredData()).overall.map((e) => [e.gameId, e.rating])).toEqual([['z', 990], ['a', 1005]]);
+        expect((await GM_getValue(accountKey(RATING_HISTORY_KEY))).overall).toHaveLength(2);
+    });
+});
+
+describe('accounts', () => {
+    it('keeps the data of each account separate', async () => {
+        await setStoredData({ ...empty(), overall: [{ timestamp: '2025-03-01T12:00:00.000Z', rating: 1000, gameId: 'a' }] });
+        await setBackfillState({ lastLimitDays: 30, lastSyncTimestamp: 1, ended: true });
+
+        setActiveAccount('smurf');
+        await addStoredEntries({ ...empty(), overall: [{ timestamp: '2025-03-02T12:00:00.000Z', rating: 800, gameId: 'b' }] });
+
+        expect((await getStoredData()).overall.map((e) => e.gameId)).toEqual(['b']);
+        expect((await getBackfillState()).ended).toBe(false);
+
+        setActiveAccount(USER_ID);
+        expect((await getStoredData()).overall.map((e) => e.gameId)).toEqual(['a']);
+        expect((await getBackfillState()).ended).toBe(true);
+    });
+
+    it('assigns data from before multi-account support to the first account, once', async () => {
+        await GM_setValue(BACKFILL_STATE_KEY, { lastLimitDays: 30, lastSyncTimestamp: 1, ended: true });
+        await createLegacyDb([
+            { mode: 'overall', gameId: 'a', timestamp: '2025-03-01T12:00:00.000Z', rating: 1000, time: 1740830400000 },
+        ]);
+
+        expect(await assignLegacyDataToAccount(USER_ID)).toBe(true);
+        expect(await assignLegacyDataToAccount('smurf')).toBe(false);
+
+        expect(await GM_getValue(BACKFILL_STATE_KEY)).toBeUndefined();
+        expect(await GM_getValue(LEGACY_DATA_OWNER_KEY)).toBe(USER_ID);
+        expect((await getBackfillState()).ended).toBe(true);
+        expect((await getStoredData()).overall.map((e) => e.gameId)).toEqual(['a']);
+    });
+});
+
+describe('moveHistoryToIndexedDb', () => {
+    it('moves GM history once and empties the GM copy', async () => {
+        await GM_setValue(accountKey(RATING_HISTORY_KEY), {
+            ...empty(),
+            overall: [
+                { timestamp: '2025-03-01T12:00:00.000Z', rating: 1000, gameId: 'a' },
+                { timestamp: '2025-03-02T12:00:00.000Z', rating: 1010, gameId: 'b' },
+            ],
+        });
+        await addStoredEntries({ ...empty(), overall: [{ timestamp: '2025-03-02T12:00:00.000Z', rating: 1020, gameId: 'b' }] });
+
+        expect(await moveHistoryToIndexedDb(USER_ID)).toBe(2);
+        expect(await moveHistoryToIndexedDb(USER_ID)).toBe(0);
+
+        expect((await getStoredData()).overall.map((e) => [e.gameId, e.rating])).toEqual([['a', 1000], ['b', 1020]]);
+        expect((await GM_getValue(accountKey(RATING_HISTORY_KEY))).overall).toEqual([]);
+    });
+});
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { syncRatingHistory } from '../src/lib/api';
+import { DEFAULT_SETTINGS, DUEL_CACHE_KEY } from '../src/lib/constants';
+import { SyncController } from '../src/lib/sync';
+import { getBackfillState, getStoredData, getStoredDuelRecords, setBackfillState, sleep } from '../src/lib/utils';
+import { BackfillState } from '../src/types';
+import { DUELS, USER_ID, createFixtureClient, duelUrl } from './fixtures';
+
+// The sync reports to the chart and the sync controls, which need a page.
+vi.mock('../src/lib/ui');
+
+const SETTINGS = { ...DEFAULT_SETTINGS, backfillFullHistory: true };
+
+beforeEach(() => {
+    // The malformed payload on the last fixture page is reported through console.error
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('SyncController', () => {
+    it('holds a paused sync until it is resumed', async () => {
+        const controller = new SyncController();
+        const resumed = vi.fn();
+
+        controller.pause();
+        void controller.waitIfPaused().then(resumed);
+        await sleep(0);
+        expect(resumed).not.toHaveBeenCalled();
+
+        controller.resume();
+        await sleep(0);
+        expect(resumed).toHaveBeenCalled();
+        expect(controller.isPaused).toBe(false);
+    });
+
+    it('releases a paused sync and aborts its signal when cancelled', async () => {
+        const controller = new SyncController();
+        controller.pause();
+        const waiting = controller.waitIfPaused();
+
+        controller.cancel();
+
+        await waiting;
+        expect(controller.isCancelled).toBe(true);
+        expect(controller.signal.aborted).toBe(true);
+        expect(controller.isPaused).toBe(false);
+    });
+});
+
+describe('syncRatingHistory', () => {
+    const STATE: BackfillState = { lastLimitDays: 30, lastSyncTimestamp: 1, ended: false, cursor: null };
+
+    it('writes nothing after it was cancelled and leaves the backfill state alone', async () => {
+        await setBackfillState(STATE);
+        const controller = new SyncController();
+        const setValue = vi.spyOn(globalThis as any, 'GM_setValue');
+        const { client } = createFixtureClient({
+            [duelUrl('game-b')]: () => {
+                controller.cancel();
+                setValue.mockClear();
+                return { status: 200, body: DUELS['game-b'], headers: {} };
+            },
+        });
+        const setSyncState = vi.fn();
+
+        const result = await syncRatingHistory(USER_ID, 0, setSyncState, SETTINGS, async () => {}, { controller, client });
+
+        expect(result).toMatchObject({ newDataAdded: false, cancelled: true });
+        expect(setSyncState).toHaveBeenLastCalledWith(false, 'Sync cancelled', SETTINGS, expect.any(Function));
+        // Only the shared duel cache is saved, so the fetched duels are not requested again.
+        expect(setValue.mock.calls.map(([key]) => key)).toEqual([DUEL_CACHE_KEY]);
+        expect(await getBackfillState()).toEqual(STATE);
+        expect((await getStoredData()).overall).toEqual([]);
+        expect(await getStoredDuelRecords()).toEqual({});
+    });
+
+    it('continues a paused sync once it is resumed', async () => {
+        const controller = new SyncController();
+        const { client, transport } = createFixtureClient();
+        controller.pause();
+
+        const sync = syncRatingHistory(USER_ID, 0, vi.fn(), SETTINGS, async () => {}, { controller, client });
+        await sleep(10);
+        expect(transport.requests.filter((url) => url.startsWith(duelUrl('')))).toEqual([]);
+
+        controller.resume();
+
+        expect(await sync).toMatchObject({ newDataAdded: true, reachedEnd: true });
+        expect((await getStoredData()).overall).toHaveLength(5);
+        expect((await getBackfillState()).ended).toBe(true);
+    });
+});
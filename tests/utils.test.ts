@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { DATASET_STYLES } from '../src/lib/constants';
+import { getDatasetStyle, getModeKey, getModeKeys, mapWithConcurrency, sleep } from '../src/lib/utils';
+
+describe('getModeKey', () => {
+    it('maps each ranked mode to its history key', () => {
+        expect(getModeKey('StandardDuels')).toBe('moving');
+        expect(getModeKey('NoMoveDuels')).toBe('noMove');
+        expect(getModeKey('NmpzDuels')).toBe('nmpz');
+    });
+
+    it('derives keys for modes without a fixed key', () => {
+        expect(getModeKey('TeamDuels')).toBe('teamDuels');
+        expect(getModeKey('SomeFutureDuels')).toBe('someFutureDuels');
+    });
+
+    it('returns null for unranked or missing modes', () => {
+        expect(getModeKey('None')).toBeNull();
+        expect(getModeKey('')).toBeNull();
+        expect(getModeKey(undefined)).toBeNull();
+    });
+});
+
+describe('getModeKeys', () => {
+    it('lists styled modes first, then modes that only appear in the data', () => {
+        const entry = { timestamp: '2025-03-01T12:00:00.000Z', rating: 1000, gameId: 'a' };
+
+        const keys = getModeKeys({ overall: [], zetaDuels: [entry], alphaDuels: [entry], emptyDuels: [] });
+
+        expect(keys).toEqual([...Object.keys(DATASET_STYLES), 'alphaDuels', 'zetaDuels']);
+    });
+});
+
+describe('getDatasetStyle', () => {
+    it('generates a stable style for modes without one', () => {
+        const style = getDatasetStyle('someFutureDuels');
+
+        expect(style.label).toBe('Some Future Duels');
+        expect(getDatasetStyle('someFutureDuels')).toEqual(style);
+        expect(getDatasetStyle('nmpz')).toBe(DATASET_STYLES.nmpz);
+    });
+});
+
+describe('mapWithConcurrency', () => {
+    it('keeps item order when calls finish out of order', async () => {
+        const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, i) => {
+            await sleep(ms);
+            return i;
+        });
+
+        expect(results).toEqual([0, 1, 2]);
+    });
+
+    it('never runs more calls than the limit at once', async () => {
+        let running = 0;
+        let maxRunning = 0;
+
+        await mapWithConcurrency(Array.from({ length: 8 }, (_, i) => i), 3, async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await sleep(5);
+            running--;
+        });
+
+        expect(maxRunning).toBe(3);
+    });
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+// https://vitest.dev/config/
+export default defineConfig({
+    test: {
+        include: ["tests/**/*.test.ts"],
+        setupFiles: ["tests/setup.ts"],
+        environment: "node",
+    },
+});